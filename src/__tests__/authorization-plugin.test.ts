@@ -0,0 +1,182 @@
+/**
+ * @file Authorization Plugin Tests
+ *
+ * Tests that tool calls and tool listings are authorized against a role and
+ * scope policy, for callers identified by authInfo, bearer tokens or API
+ * keys, using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { BasePlugin, PluginContext, ProxyPlugin, ToolListPluginContext } from '../interfaces/plugin.js';
+import { AuthorizationPlugin, AuthorizationPluginConfig, AuthorizationRule, Principal, authorize } from '../plugins/authorization/index.js';
+
+const policy: AuthorizationRule[] = [
+  { tools: ['search'], scopes: ['repo:read'] },
+  { tools: ['delete_*'], roles: ['admin'] },
+  { tools: ['deploy'], args: { env: 'production' }, roles: ['admin', 'release-manager'] },
+  { tools: ['deploy'], roles: ['developer', 'admin'] }
+];
+
+/**
+ * Stands in for an HTTP transport that passes request headers, which the
+ * in-memory transport does not
+ */
+class HeaderPlugin extends BasePlugin {
+  name = 'header-plugin';
+  version = '1.0.0';
+  config = { priority: 200 };
+  
+  constructor(private headers: Record<string, string>) {
+    super();
+  }
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    context.request = { ...context.request, requestInfo: { headers: this.headers } };
+  }
+  
+  async beforeListTools(context: ToolListPluginContext): Promise<void> {
+    context.request = { ...context.request, requestInfo: { headers: this.headers } };
+  }
+}
+
+const developer: AuthInfo = { token: 't1', clientId: 'dev-client', scopes: ['repo:read'], extra: { roles: ['developer'] } };
+const admin: AuthInfo = { token: 't2', clientId: 'admin-client', scopes: [], extra: { roles: ['admin'] } };
+
+describe('Authorization Plugin', () => {
+  let server: McpServer;
+  let client: Client;
+  
+  async function setup(
+    authInfo?: AuthInfo,
+    config: Partial<AuthorizationPluginConfig> = {},
+    plugins: ProxyPlugin[] = []
+  ): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, {
+      plugins: [new AuthorizationPlugin({ policy, ...config }), ...plugins]
+    });
+    
+    proxiedServer.tool('search', { query: z.string() }, async () => ({ content: [{ type: 'text', text: 'found' }] }));
+    proxiedServer.tool('delete_repo', async () => ({ content: [{ type: 'text', text: 'deleted' }] }));
+    proxiedServer.tool('deploy', { env: z.string() }, async args => ({ content: [{ type: 'text', text: `deployed to ${args.env}` }] }));
+    proxiedServer.tool('ping', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    if (authInfo) {
+      // Stand in for a transport that authenticated the client
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+    }
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should allow calls the caller has the scopes and roles for', async () => {
+    await setup(developer);
+    
+    const search = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    const deploy = await client.callTool({ name: 'deploy', arguments: { env: 'staging' } });
+    const ping = await client.callTool({ name: 'ping' });
+    
+    expect((search.content as any)[0].text).toBe('found');
+    expect((deploy.content as any)[0].text).toBe('deployed to staging');
+    expect((ping.content as any)[0].text).toBe('pong');
+  });
+  
+  it('should deny calls with a structured 403 error', async () => {
+    await setup(developer);
+    
+    const result = await client.callTool({ name: 'delete_repo' });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain("Not authorized to call tool 'delete_repo'");
+    expect(result._meta).toEqual({
+      code: 'FORBIDDEN',
+      statusCode: 403,
+      toolName: 'delete_repo',
+      requiredRoles: ['admin']
+    });
+  });
+  
+  it('should apply rules whose argument conditions match', async () => {
+    await setup(developer);
+    
+    const production = await client.callTool({ name: 'deploy', arguments: { env: 'production' } });
+    
+    expect(production._meta?.code).toBe('FORBIDDEN');
+    expect(production._meta?.requiredRoles).toEqual(['admin', 'release-manager']);
+  });
+  
+  it('should ask anonymous callers to authenticate', async () => {
+    await setup();
+    
+    const result = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    const ping = await client.callTool({ name: 'ping' });
+    
+    expect(result._meta).toMatchObject({ code: 'UNAUTHENTICATED', statusCode: 401 });
+    expect((ping.content as any)[0].text).toBe('pong');
+  });
+  
+  it('should list only the tools the caller can use', async () => {
+    await setup(admin, { defaultDecision: 'deny' });
+    
+    const { tools } = await client.listTools();
+    
+    expect(tools.map(tool => tool.name)).toEqual(['delete_repo', 'deploy']);
+  });
+  
+  it('should identify callers by bearer token or API key', async () => {
+    const plugin = new AuthorizationPlugin({
+      policy,
+      verifyToken: async token => token === 'good' ? { id: 'token-user', roles: ['admin'] } : undefined,
+      apiKeys: { 'key-1': { id: 'ci', scopes: ['repo:read'] } }
+    });
+    const request = (headers: Record<string, string>) => ({ requestInfo: { headers } });
+    
+    expect(await plugin.resolvePrincipal(request({ authorization: 'Bearer good' }))).toEqual({
+      id: 'token-user', roles: ['admin'], scopes: [], source: 'bearer'
+    });
+    expect((await plugin.resolvePrincipal(request({ 'x-api-key': 'key-1' })))?.source).toBe('apiKey');
+    expect(await plugin.resolvePrincipal(request({ authorization: 'Bearer bad' }))).toBeUndefined();
+  });
+  
+  it('should fail closed when a verifier throws', async () => {
+    await setup(undefined, {
+      verifyToken: async () => {
+        throw new Error('session store unavailable');
+      }
+    }, [new HeaderPlugin({ authorization: 'Bearer good' })]);
+    
+    const result = await client.callTool({ name: 'ping' });
+    
+    expect(result.isError).toBe(true);
+    expect(result._meta).toMatchObject({ code: 'UNAUTHENTICATED', statusCode: 401 });
+    expect((result.content as any)[0].text).toContain("Could not verify the caller's bearer token");
+    await expect(client.listTools()).rejects.toThrow("Could not verify the caller's bearer token");
+  });
+});
+
+describe('Authorization Policy', () => {
+  it('should decide the same way on every call with global patterns', () => {
+    const rules: AuthorizationRule[] = [{ tools: ['deploy'], args: { env: /^prod/g }, roles: ['admin'] }];
+    const developer: Principal = { id: 'dev', roles: ['developer'], scopes: [], source: 'authInfo' };
+    
+    const decisions = [1, 2, 3].map(() => authorize(rules, 'allow', developer, 'deploy', [], { env: 'production' }).allowed);
+    
+    expect(decisions).toEqual([false, false, false]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @file Caching Plugin Tests
+ *
+ * Tests that repeated tool calls are served from the cache, keyed on the tool
+ * name and a hash of the canonical arguments, with TTLs, LRU bounds and the SQLite store,
+ * using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { CachingPlugin, CachingPluginConfig, MemoryCacheStore, SqliteCacheStore, cacheKey, canonicalJson } from '../plugins/caching/index.js';
+
+const text = (result: any): string => result.content[0].text;
+
+describe('Caching Plugin', () => {
+  let server: McpServer;
+  let client: Client;
+  let plugin: CachingPlugin;
+  let calls: Record<string, number>;
+  let authInfo: AuthInfo | undefined;
+  
+  async function setup(config: CachingPluginConfig = {}): Promise<void> {
+    plugin = new CachingPlugin(config);
+    const proxiedServer = await wrapWithProxy(server, { plugins: [plugin] });
+    
+    proxiedServer.tool('search', { query: z.string(), limit: z.number().optional() }, async args => {
+      calls.search = (calls.search ?? 0) + 1;
+      return { content: [{ type: 'text', text: `results for ${args.query} #${calls.search}` }] };
+    });
+    
+    proxiedServer.tool('send-email', { to: z.string() }, { idempotentHint: false }, async args => {
+      calls.email = (calls.email ?? 0) + 1;
+      return { content: [{ type: 'text', text: `sent to ${args.to} #${calls.email}` }] };
+    });
+    
+    proxiedServer.tool('flaky', async () => {
+      calls.flaky = (calls.flaky ?? 0) + 1;
+      return { content: [{ type: 'text', text: 'try again' }], isError: true };
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    // Stand in for a transport that authenticated the client
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    calls = {};
+    authInfo = undefined;
+  });
+  
+  afterEach(async () => {
+    await plugin.destroy();
+    await client.close();
+  });
+  
+  it('should serve identical calls from the cache regardless of argument order', async () => {
+    await setup();
+    
+    const first = await client.callTool({ name: 'search', arguments: { query: 'mcp', limit: 5 } });
+    const second = await client.callTool({ name: 'search', arguments: { limit: 5, query: 'mcp' } });
+    const other = await client.callTool({ name: 'search', arguments: { query: 'proxy', limit: 5 } });
+    
+    expect(text(first)).toBe('results for mcp #1');
+    expect(first._meta?.cacheHit).toBe(false);
+    expect(text(second)).toBe('results for mcp #1');
+    expect(second._meta?.cacheHit).toBe(true);
+    expect(typeof second._meta?.cacheAge).toBe('number');
+    expect(text(other)).toBe('results for proxy #2');
+    expect(calls.search).toBe(2);
+    
+    const stats = await plugin.getStats();
+    expect(stats.customMetrics).toMatchObject({ hits: 1, misses: 2, stores: 2, entries: 2 });
+  });
+  
+  it('should expire entries after their TTL and honour per-tool TTLs', async () => {
+    await setup({ ttl: 20, toolTtls: { 'send-email': 60000 } });
+    
+    await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const result = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    
+    expect(text(result)).toBe('results for mcp #2');
+    expect(result._meta?.cacheHit).toBe(false);
+  });
+  
+  it('should not cache tools with a zero TTL, non-idempotent tools or error results', async () => {
+    await setup({ toolTtls: { search: 0 } });
+    
+    for (let i = 0; i < 2; i++) {
+      await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+      await client.callTool({ name: 'send-email', arguments: { to: 'ada@example.com' } });
+      await client.callTool({ name: 'flaky' });
+    }
+    
+    expect(calls).toEqual({ search: 2, email: 2, flaky: 2 });
+  });
+  
+  it('should cache non-idempotent tools when told to', async () => {
+    await setup({ cacheNonIdempotent: true });
+    
+    await client.callTool({ name: 'send-email', arguments: { to: 'ada@example.com' } });
+    const second = await client.callTool({ name: 'send-email', arguments: { to: 'ada@example.com' } });
+    
+    expect(text(second)).toBe('sent to ada@example.com #1');
+    expect(calls.email).toBe(1);
+  });
+  
+  it('should drop cached results on invalidate', async () => {
+    await setup();
+    
+    await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    await plugin.invalidate('search');
+    const result = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    
+    expect(text(result)).toBe('results for mcp #2');
+  });
+  
+  it('should serve hits from a SQLite store', async () => {
+    await setup({ store: new SqliteCacheStore({ connectionString: ':memory:' }) });
+    
+    await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    const second = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    
+    expect(text(second)).toBe('results for mcp #1');
+    expect(second._meta?.cacheHit).toBe(true);
+    expect(calls.search).toBe(1);
+  });
+  
+  it('should keep results of callers apart when the key is scoped to the client', async () => {
+    await setup({ keyScope: 'auth' });
+    
+    authInfo = { token: 'a', clientId: 'tenant-a', scopes: [] };
+    await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    const repeat = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    authInfo = { token: 'b', clientId: 'tenant-b', scopes: [] };
+    const other = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    
+    expect(text(repeat)).toBe('results for mcp #1');
+    expect(repeat._meta?.cacheHit).toBe(true);
+    expect(text(other)).toBe('results for mcp #2');
+    expect(other._meta?.cacheHit).toBe(false);
+  });
+  
+  it('should share results between callers by default', async () => {
+    await setup();
+    
+    authInfo = { token: 'a', clientId: 'tenant-a', scopes: [] };
+    await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    authInfo = { token: 'b', clientId: 'tenant-b', scopes: [] };
+    const other = await client.callTool({ name: 'search', arguments: { query: 'mcp' } });
+    
+    expect(text(other)).toBe('results for mcp #1');
+    expect(cacheKey('search', { query: 'mcp' }, undefined, 'tenant-a')).not.toBe(cacheKey('search', { query: 'mcp' }));
+  });
+  
+  it('should keep argument values out of the store', async () => {
+    const keys: string[] = [];
+    const store = new MemoryCacheStore();
+    const set = store.set.bind(store);
+    store.set = (key, entry) => {
+      keys.push(key);
+      return set(key, entry);
+    };
+    await setup({ store, keySecret: 'cache-secret' });
+    
+    await client.callTool({ name: 'search', arguments: { query: 'ada@example.com' } });
+    
+    expect(keys).toEqual([cacheKey('search', { query: 'ada@example.com' }, 'cache-secret')]);
+    expect(keys[0]).toMatch(/^search:[0-9a-f]{64}$/);
+    expect(keys[0]).not.toBe(cacheKey('search', { query: 'ada@example.com' }));
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  const entry = (toolName: string, text: string) => ({
+    toolName,
+    result: { content: [{ type: 'text', text }] },
+    storedAt: Date.now(),
+    expiresAt: Date.now() + 60000
+  });
+  
+  it('should evict the least recently used entry beyond maxEntries', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    
+    await store.set('a', entry('search', 'a'));
+    await store.set('b', entry('search', 'b'));
+    await store.get('a');
+    await store.set('c', entry('search', 'c'));
+    
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+    expect(store.evictions).toBe(1);
+  });
+  
+  it('should evict by serialized size and clear by tool', async () => {
+    const store = new MemoryCacheStore({ maxSize: 120 });
+    
+    await store.set('a', entry('search', 'x'.repeat(30)));
+    await store.set('b', entry('fetch', 'y'.repeat(30)));
+    expect(await store.size()).toBe(1);
+    
+    await store.set('c', entry('search', 'z'));
+    await store.clear('search');
+    expect(await store.size()).toBe(1);
+    expect(await store.get('b')).toBeDefined();
+  });
+});
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level and keep array order', () => {
+    expect(canonicalJson({ b: [2, 1], a: { d: 1, c: null } })).toBe('{"a":{"c":null,"d":1},"b":[2,1]}');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file Circuit Breaker Tests
+ * @description Unit tests for the per-plugin circuit breaker state machine
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { CircuitState } from '../interfaces/plugin.js';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('CircuitBreaker', () => {
+  it('should stay closed below the failure threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+    
+    breaker.recordFailure();
+    breaker.recordFailure();
+    
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canExecute()).toBe(true);
+  });
+  
+  it('should open after consecutive failures reach the threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+    
+    breaker.recordFailure();
+    breaker.recordFailure();
+    
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+  });
+  
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getConsecutiveFailures()).toBe(1);
+  });
+  
+  it('should allow limited probe calls after the reset timeout', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 20, halfOpenMaxCalls: 1 });
+    breaker.recordFailure();
+    
+    await wait(30);
+    
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canExecute()).toBe(false);
+  });
+  
+  it('should close after a successful probe and re-open after a failed one', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 20 });
+    
+    breaker.recordFailure();
+    await wait(30);
+    breaker.canExecute();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    
+    await wait(30);
+    breaker.canExecute();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+  
+  it('should report state transitions', async () => {
+    const transitions: CircuitState[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 20 }, state => transitions.push(state));
+    
+    breaker.recordFailure();
+    await wait(30);
+    breaker.canExecute();
+    breaker.recordSuccess();
+    
+    expect(transitions).toEqual(['open', 'half-open', 'closed']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @file Content Parts Tests
+ * @description Unit tests for part-by-part iteration, size accounting and transforms of tool results
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  contentParts,
+  contentPartSize,
+  measureContent,
+  textParts,
+  transformContent
+} from '../utils/content-parts.js';
+import { ToolCallResult } from '../interfaces/proxy-hooks.js';
+
+const pngData = Buffer.from('0123456789').toString('base64');
+
+const mixedResult = (): ToolCallResult => ({
+  result: {
+    content: [
+      { type: 'text', text: 'héllo' },
+      { type: 'image', data: pngData, mimeType: 'image/png' },
+      { type: 'resource', resource: { uri: 'file:///notes.txt', text: 'notes' } },
+      { type: 'resource_link', uri: 'file:///big.csv', name: 'big.csv' },
+      { type: 'text', text: 'world' }
+    ],
+    _meta: { source: 'test' }
+  },
+  metadata: { requestId: 'request-1' }
+});
+
+describe('Content Parts', () => {
+  it('should size parts by their payload', () => {
+    const [text, image, resource, link] = mixedResult().result.content;
+    
+    expect(contentPartSize(text)).toBe(6);
+    expect(contentPartSize(image)).toBe(10);
+    expect(contentPartSize(resource)).toBe(5);
+    expect(contentPartSize(link)).toBe(0);
+    expect(contentPartSize({ type: 'audio', data: Buffer.from('abcd').toString('base64') })).toBe(4);
+  });
+  
+  it('should iterate parts with their positions', () => {
+    const infos = Array.from(contentParts(mixedResult())).map(([part, info]) => ({ type: part.type, ...info }));
+    
+    expect(infos.map(info => info.offset)).toEqual([0, 6, 16, 21, 21]);
+    expect(infos[1]).toEqual({ type: 'image', index: 1, size: 10, offset: 6, count: 5 });
+  });
+  
+  it('should measure results without content as empty', () => {
+    expect(measureContent({ result: {} })).toEqual({ parts: 0, bytes: 0, textLength: 0, byType: {} });
+  });
+  
+  it('should measure a whole result', () => {
+    expect(measureContent(mixedResult())).toEqual({
+      parts: 5,
+      bytes: 26,
+      textLength: 10,
+      byType: { text: 11, image: 10, resource: 5, resource_link: 0 }
+    });
+    expect(Array.from(textParts(mixedResult()))).toEqual(['héllo', 'world']);
+  });
+  
+  it('should keep, drop and replace parts', async () => {
+    const original = mixedResult();
+    
+    const transformed = await transformContent(original, (part, info) => {
+      if (part.type === 'image') return null;
+      if (part.type === 'text' && info.index === 0) {
+        return [{ type: 'text', text: '[redacted]' }, { type: 'text', text: '(1 part hidden)' }];
+      }
+      return undefined;
+    });
+    
+    expect(transformed.result.content.map((part: any) => part.text ?? part.type)).toEqual([
+      '[redacted]', '(1 part hidden)', 'resource', 'resource_link', 'world'
+    ]);
+    expect(transformed.result._meta).toEqual({ source: 'test' });
+    expect(transformed.metadata).toEqual({ requestId: 'request-1' });
+    expect(original.result.content).toHaveLength(5);
+  });
+  
+  it('should return the same result when every part is kept', async () => {
+    const original = mixedResult();
+    
+    expect(await transformContent(original, async () => undefined)).toBe(original);
+  });
+  
+  it('should let transforms truncate by running size', async () => {
+    const truncated = await transformContent(mixedResult(), (_part, info) =>
+      info.offset + info.size > 16 ? null : undefined
+    );
+    
+    expect(measureContent(truncated).bytes).toBe(16);
+    expect(truncated.result.content).toHaveLength(2);
+  });
+});
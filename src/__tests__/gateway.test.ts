@@ -0,0 +1,177 @@
+/**
+ * @file Gateway Tests
+ *
+ * Tests that several backends are served behind one proxied endpoint under
+ * namespaced names, with calls routed to the owning backend and plugins told
+ * which backend that is, using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { createGateway } from '../gateway.js';
+import { GatewayOptions, GatewayMcpServer, UpstreamContext } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext } from '../interfaces/plugin.js';
+
+class UpstreamRecordingPlugin extends BasePlugin {
+  name = 'upstream-recording-plugin';
+  version = '1.0.0';
+  
+  public calls: { toolName: string; upstream?: UpstreamContext }[] = [];
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.calls.push({ toolName: context.toolName, upstream: context.upstream });
+  }
+}
+
+class FailingPlugin extends BasePlugin {
+  name = 'failing-plugin';
+  version = '1.0.0';
+  
+  async initialize(): Promise<void> {
+    throw new Error('license check failed');
+  }
+}
+
+/**
+ * A backend whose tools answer with the backend's name
+ */
+function createBackend(name: string, toolNames: string[]): McpServer {
+  const server = new McpServer({ name, version: '1.0.0' });
+  for (const toolName of toolNames) {
+    server.tool(toolName, { query: z.string() }, async args => ({
+      content: [{ type: 'text', text: `${name}:${toolName}:${args.query}` }]
+    }));
+  }
+  return server;
+}
+
+const text = (result: any): string => result.content[0].text;
+
+describe('Gateway', () => {
+  let github: McpServer;
+  let jira: McpServer;
+  let gateway: GatewayMcpServer;
+  let client: Client;
+  
+  async function setup(options: Partial<GatewayOptions> = {}): Promise<void> {
+    gateway = await createGateway({
+      upstreams: { github: { server: github }, jira: { server: jira } },
+      ...options
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await gateway.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    github = createBackend('GitHub', ['create_issue', 'search']);
+    jira = createBackend('Jira', ['create_issue', 'search']);
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await gateway.proxy.shutdown({ timeout: 100 });
+    await client.close();
+  });
+  
+  it('should serve every backend under namespaced tool names', async () => {
+    await setup();
+    
+    const { tools } = await client.listTools();
+    
+    expect(tools.map(tool => tool.name)).toEqual([
+      'github__create_issue',
+      'github__search',
+      'jira__create_issue',
+      'jira__search'
+    ]);
+    expect(tools[0].inputSchema.required).toEqual(['query']);
+    expect(client.getServerVersion()?.name).toBe('mcp-gateway');
+  });
+  
+  it('should route calls to the owning backend and tell plugins which one it is', async () => {
+    const plugin = new UpstreamRecordingPlugin();
+    await setup({ plugins: [plugin] });
+    
+    const githubResult = await client.callTool({ name: 'github__create_issue', arguments: { query: 'bug' } });
+    const jiraResult = await client.callTool({ name: 'jira__search', arguments: { query: 'epic' } });
+    
+    expect(text(githubResult)).toBe('GitHub:create_issue:bug');
+    expect(text(jiraResult)).toBe('Jira:search:epic');
+    expect(plugin.calls).toEqual([
+      { toolName: 'github__create_issue', upstream: { name: 'github', toolName: 'create_issue' } },
+      { toolName: 'jira__search', upstream: { name: 'jira', toolName: 'search' } }
+    ]);
+  });
+  
+  it('should honour custom namespaces and separators', async () => {
+    await setup({
+      upstreams: { github: { server: github, namespace: 'gh' }, jira: { server: jira } },
+      separator: '.'
+    });
+    
+    const { tools } = await client.listTools();
+    
+    expect(tools.map(tool => tool.name)).toEqual(['gh.create_issue', 'gh.search', 'jira.create_issue', 'jira.search']);
+  });
+  
+  it('should resolve collisions in favour of the backend mounted first', async () => {
+    await setup({
+      upstreams: { github: { server: github, namespace: '' }, jira: { server: jira, namespace: '' } }
+    });
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'search_2', arguments: { query: 'epic' } });
+    
+    expect(tools.map(tool => tool.name)).toEqual(['create_issue', 'search', 'create_issue_2', 'search_2']);
+    expect(text(result)).toBe('Jira:search:epic');
+  });
+  
+  it('should namespace prompts and follow list changes of each backend', async () => {
+    jira.prompt('triage', 'Triage an issue', async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Triage it' } }]
+    }));
+    await setup();
+    
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['jira__triage']);
+    expect((await client.getPrompt({ name: 'jira__triage' })).messages[0].content).toEqual({ type: 'text', text: 'Triage it' });
+    
+    github.tool('close_issue', async () => ({ content: [{ type: 'text', text: 'closed' }] }));
+    await gateway.upstreams.github.refresh();
+    
+    expect(text(await client.callTool({ name: 'github__close_issue' }))).toBe('closed');
+  });
+  
+  it('should close every backend on shutdown', async () => {
+    await setup();
+    const closed: string[] = [];
+    github.server.onclose = () => { closed.push('github'); };
+    jira.server.onclose = () => { closed.push('jira'); };
+    
+    await gateway.proxy.shutdown();
+    
+    expect(closed.sort()).toEqual(['github', 'jira']);
+  });
+});
+
+describe('Gateway Setup', () => {
+  it('should close every backend when plugins fail to initialize', async () => {
+    const github = createBackend('GitHub', ['search']);
+    const jira = createBackend('Jira', ['search']);
+    const closed: string[] = [];
+    github.server.onclose = () => { closed.push('github'); };
+    jira.server.onclose = () => { closed.push('jira'); };
+    
+    await expect(createGateway({
+      upstreams: { github: { server: github }, jira: { server: jira } },
+      plugins: [new FailingPlugin()]
+    })).rejects.toThrow('license check failed');
+    
+    expect(closed.sort()).toEqual(['github', 'jira']);
+  });
+});
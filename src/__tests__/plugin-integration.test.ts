@@ -399,6 +399,48 @@ describe('Plugin Integration Tests', () => {
     });
   });
   
+  describe('Per-Call Plugin Context', () => {
+    it('should keep pluginData and the proxy request ID across hook phases', async () => {
+      const observed: Array<{ requestId: string; metadataRequestId: string; carried: any }> = [];
+      
+      class TimingPlugin extends BasePlugin {
+        name = 'timing-plugin';
+        version = '1.0.0';
+        
+        async beforeToolCall(context: PluginContext): Promise<void> {
+          context.pluginData.set(this.name, { token: `token-${context.requestId}` });
+        }
+        
+        async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+          observed.push({
+            requestId: context.requestId,
+            metadataRequestId: context.metadata?.requestId,
+            carried: context.pluginData.get(this.name)
+          });
+          return result;
+        }
+      }
+      
+      proxiedServer = await wrapWithProxy(server, {
+        plugins: [new TimingPlugin()]
+      });
+      
+      proxiedServer.tool('echo', { message: z.string() }, async (args) => ({
+        content: [{ type: 'text', text: args.message }]
+      }));
+      
+      await proxiedServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      
+      const result = await client.callTool({ name: 'echo', arguments: { message: 'hi' } });
+      
+      expect(observed).toHaveLength(1);
+      expect(observed[0].requestId).toBe(observed[0].metadataRequestId);
+      expect(observed[0].requestId).toBe((result._meta as any).requestId);
+      expect(observed[0].carried).toEqual({ token: `token-${observed[0].requestId}` });
+    });
+  });
+  
   describe('Performance and Caching', () => {
     it('should cache repeated calls with caching plugin', async () => {
       const cachingPlugin = new CachingPlugin();
@@ -526,6 +568,50 @@ describe('Plugin Integration Tests', () => {
       expect(loggingPlugin.logs).toHaveLength(1); // Only beforeToolCall
       expect(loggingPlugin.logs[0].phase).toBe('before');
     });
+    
+    it('should let plugins recover from tool execution errors', async () => {
+      const seenErrors: string[] = [];
+      
+      class FallbackPlugin extends BasePlugin {
+        name = 'fallback-plugin';
+        version = '1.0.0';
+        
+        async onToolError(error: Error, context: PluginContext): Promise<ToolCallResult> {
+          seenErrors.push(`${context.toolName}:${error.message}:${context.args.data}`);
+          return {
+            result: { content: [{ type: 'text', text: 'Service busy, showing cached data' }] }
+          };
+        }
+      }
+      
+      const loggingPlugin = new LoggingPlugin();
+      
+      proxiedServer = await wrapWithProxy(server, {
+        plugins: [new FallbackPlugin(), loggingPlugin]
+      });
+      
+      proxiedServer.tool('flaky-tool', {
+        data: z.string()
+      }, async () => {
+        throw new Error('Upstream timeout');
+      });
+      
+      await proxiedServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      
+      const result = await client.callTool({
+        name: 'flaky-tool',
+        arguments: { data: 'query' }
+      });
+      
+      expect(result.isError).toBeUndefined();
+      expect((result.content as any)[0].text).toBe('Service busy, showing cached data');
+      expect((result._meta as any).recoveredBy).toBe('fallback-plugin');
+      expect(seenErrors).toEqual(['flaky-tool:Upstream timeout:query']);
+      
+      // After hooks run on the recovered result
+      expect(loggingPlugin.logs.map(log => log.phase)).toEqual(['before', 'after']);
+    });
   });
   
   describe('Plugin Configuration', () => {
@@ -558,5 +644,38 @@ describe('Plugin Integration Tests', () => {
       expect(selectivePlugin.logs).toHaveLength(2); // before and after for allowed-tool
       expect(selectivePlugin.logs.every(log => log.toolName === 'allowed-tool')).toBe(true);
     });
+    
+    it('should select tools by glob, regex and tag', async () => {
+      const selectivePlugin = new LoggingPlugin();
+      
+      proxiedServer = await wrapWithProxy(server, {
+        plugins: [{
+          plugin: selectivePlugin,
+          config: {
+            includeTools: ['github.*', /^db_read_/, 'tag:billing', 'tag:readOnly'],
+            excludeTools: ['github.delete_*']
+          }
+        }],
+        toolTags: { 'charge-card': ['billing'] }
+      });
+      
+      const handler = async () => ({ content: [{ type: 'text' as const, text: 'ok' }] });
+      proxiedServer.tool('github.create_issue', handler);
+      proxiedServer.tool('github.delete_repo', handler);
+      proxiedServer.tool('db_read_users', handler);
+      proxiedServer.tool('db_write_users', handler);
+      proxiedServer.tool('charge-card', handler);
+      proxiedServer.tool('list-files', { readOnlyHint: true }, handler);
+      
+      await proxiedServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      
+      for (const name of ['github.create_issue', 'github.delete_repo', 'db_read_users', 'db_write_users', 'charge-card', 'list-files']) {
+        await client.callTool({ name, arguments: {} });
+      }
+      
+      const seen = [...new Set(selectivePlugin.logs.map(log => log.toolName))];
+      expect(seen).toEqual(['github.create_issue', 'db_read_users', 'charge-card', 'list-files']);
+    });
   });
 });
\ No newline at end of file
@@ -5,7 +5,8 @@
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { DefaultPluginManager } from '../utils/plugin-manager.js';
-import { ProxyPlugin, PluginConfig, BasePlugin } from '../interfaces/plugin.js';
+import { ProxyPlugin, PluginConfig, BasePlugin, PluginAbortError, PluginWarning, PluginTimeoutError } from '../interfaces/plugin.js';
+import { PaymentRequiredError } from '../plugins/stripe-monetization/interfaces.js';
 import { ToolCallContext, ToolCallResult } from '../interfaces/proxy-hooks.js';
 
 // Test plugin implementations
@@ -260,6 +261,48 @@ describe('DefaultPluginManager', () => {
       // Should throw during initialization when resolving dependency order
       await expect(manager.initializeAll()).rejects.toThrow('Circular dependency detected');
     });
+    
+    it('should name the plugins that form a dependency cycle', async () => {
+      await manager.register({ name: 'audit', version: '1.0.0', metadata: { dependencies: ['auth'] } });
+      await manager.register({ name: 'auth', version: '1.0.0', metadata: { optionalDependencies: ['session'] } });
+      await manager.register({ name: 'session', version: '1.0.0', metadata: { dependencies: ['auth'] } });
+      
+      await expect(manager.validateDependencies()).rejects.toThrow('Circular dependency detected: auth -> session -> auth');
+    });
+    
+    it('should check dependency version ranges', async () => {
+      await manager.register({ name: 'auth', version: '1.4.2' });
+      await manager.register({ name: 'billing', version: '1.0.0', metadata: { dependencies: ['auth@^1.2.0'] } });
+      await expect(manager.validateDependencies()).resolves.toBe(true);
+      
+      await manager.register({ name: 'audit', version: '1.0.0', metadata: { dependencies: ['auth@>=2.0.0'] } });
+      await expect(manager.validateDependencies()).rejects.toThrow("Plugin 'audit' requires 'auth@>=2.0.0', but version 1.4.2 is loaded");
+    });
+    
+    it('should check optional dependencies only when they are loaded', async () => {
+      await manager.register({ name: 'reporting', version: '1.0.0', metadata: { optionalDependencies: ['cache@^2.0.0'] } });
+      await expect(manager.validateDependencies()).resolves.toBe(true);
+      
+      await manager.register({ name: 'cache', version: '1.9.0' });
+      await expect(manager.validateDependencies()).rejects.toThrow("Plugin 'reporting' requires 'cache@^2.0.0', but version 1.9.0 is loaded");
+    });
+    
+    it('should check the minimum wrapper version', async () => {
+      await manager.register({ name: 'current', version: '1.0.0', metadata: { minWrapperVersion: '1.0.0' } });
+      await expect(manager.validateDependencies()).resolves.toBe(true);
+      
+      await manager.register({ name: 'future', version: '1.0.0', metadata: { minWrapperVersion: '2.1.0' } });
+      await expect(manager.initializeAll()).rejects.toThrow("Plugin 'future' requires wrapper version >=2.1.0, but the wrapper is 1.0.0");
+    });
+    
+    it('should refuse late registrations with unmet constraints', async () => {
+      await manager.register({ name: 'auth', version: '1.0.0' });
+      await manager.initializeAll();
+      
+      await expect(manager.register({ name: 'billing', version: '1.0.0', metadata: { dependencies: ['auth@^2.0.0'] } }))
+        .rejects.toThrow("requires 'auth@^2.0.0'");
+      expect(manager.getPlugin('billing')).toBeUndefined();
+    });
   });
   
   describe('Plugin Execution Order', () => {
@@ -292,6 +335,52 @@ describe('DefaultPluginManager', () => {
       expect(executionOrder).toHaveLength(2);
       // Order should be consistent (implementation-defined)
     });
+    
+    it('should run dependencies before their dependents regardless of priority', async () => {
+      await manager.register({ name: 'billing', version: '1.0.0', metadata: { dependencies: ['auth'] } }, { priority: 200 });
+      await manager.register({ name: 'logging', version: '1.0.0' }, { priority: 150 });
+      await manager.register({ name: 'auth', version: '1.0.0' }, { priority: 10 });
+      
+      expect(manager.getExecutionOrder().map(p => p.name)).toEqual(['logging', 'auth', 'billing']);
+    });
+    
+    it('should order by optional dependencies only when they are enabled', async () => {
+      await manager.register({ name: 'reporting', version: '1.0.0', metadata: { optionalDependencies: ['cache'] } }, { priority: 200 });
+      await manager.register({ name: 'cache', version: '1.0.0' }, { priority: 10 });
+      
+      expect(manager.getExecutionOrder().map(p => p.name)).toEqual(['cache', 'reporting']);
+      
+      await manager.configure('cache', { enabled: false });
+      expect(manager.getExecutionOrder().map(p => p.name)).toEqual(['reporting']);
+    });
+    
+    it('should keep registration order for plugins of equal priority', async () => {
+      for (const name of ['c', 'a', 'b']) {
+        await manager.register({ name, version: '1.0.0' });
+      }
+      
+      expect(manager.getExecutionOrder().map(p => p.name)).toEqual(['c', 'a', 'b']);
+    });
+    
+    it('should let a dependent see data its dependency stored on the context', async () => {
+      const seen: unknown[] = [];
+      await manager.register({
+        name: 'consumer',
+        version: '1.0.0',
+        metadata: { dependencies: ['auth'] },
+        beforeToolCall: async context => { seen.push(context.pluginData.get('auth:user')); }
+      }, { priority: 500 });
+      await manager.register({
+        name: 'auth',
+        version: '1.0.0',
+        beforeToolCall: async context => { context.pluginData.set('auth:user', 'alice'); }
+      });
+      await manager.initializeAll();
+      
+      await manager.executeBeforeHooks(manager.createPluginContext<ToolCallContext>({ toolName: 'tool', args: {} }));
+      
+      expect(seen).toEqual(['alice']);
+    });
   });
   
   describe('Hook Execution', () => {
@@ -387,6 +476,75 @@ describe('DefaultPluginManager', () => {
     });
   });
   
+  describe('Per-Call Context', () => {
+    it('should share one plugin context between before and after hooks', async () => {
+      const seen: any[] = [];
+      const statefulPlugin: ProxyPlugin = {
+        name: 'stateful-plugin',
+        version: '1.0.0',
+        beforeToolCall: async (context) => {
+          context.pluginData.set('stateful-plugin', { started: true });
+          seen.push(context);
+        },
+        afterToolCall: async (context, result) => {
+          seen.push(context);
+          return {
+            ...result,
+            metadata: { state: context.pluginData.get('stateful-plugin') }
+          };
+        }
+      };
+      await manager.register(statefulPlugin);
+      await manager.initializeAll();
+      
+      const context = manager.createPluginContext<ToolCallContext>(
+        { toolName: 'test-tool', args: {} },
+        'request-123'
+      );
+      await manager.executeBeforeHooks(context);
+      const result = await manager.executeAfterHooks(context, { result: { content: [] } });
+      
+      expect(seen[0]).toBe(seen[1]);
+      expect(seen[0].requestId).toBe('request-123');
+      expect(result.metadata).toEqual({ state: { started: true } });
+    });
+    
+    it('should record each plugin output in previousResults', async () => {
+      const firstResult: ToolCallResult = { result: { content: [] }, metadata: { from: 'first' } };
+      let seenByLater: any;
+      await manager.register({
+        name: 'first-plugin',
+        version: '1.0.0',
+        afterToolCall: async () => firstResult
+      }, { priority: 200 });
+      await manager.register({
+        name: 'later-plugin',
+        version: '1.0.0',
+        afterToolCall: async (context, result) => {
+          seenByLater = context.previousResults?.get('first-plugin');
+          return result;
+        }
+      }, { priority: 100 });
+      await manager.initializeAll();
+      
+      const context = manager.createPluginContext<ToolCallContext>({ toolName: 'test-tool', args: {} });
+      await manager.executeAfterHooks(context, { result: { content: [] } });
+      
+      expect(seenByLater).toBe(firstResult);
+      expect(context.previousResults.has('later-plugin')).toBe(true);
+    });
+    
+    it('should take the request ID from metadata when none is given', () => {
+      const context = manager.createPluginContext<ToolCallContext>({
+        toolName: 'test-tool',
+        args: {},
+        metadata: { requestId: 'from-metadata' }
+      });
+      
+      expect(context.requestId).toBe('from-metadata');
+    });
+  });
+  
   describe('Health Checks', () => {
     it('should perform health checks on all plugins', async () => {
       await manager.register(mockPlugin);
@@ -546,6 +704,526 @@ describe('DefaultPluginManager', () => {
       // Working plugin should still execute despite error in first plugin
       expect(mockPlugin.beforeCallCount).toBe(1);
     });
+    
+    it('should short-circuit with a result returned from onError', async () => {
+      const recoveringPlugin: ProxyPlugin = {
+        name: 'recovering-plugin',
+        version: '1.0.0',
+        beforeToolCall: async () => { throw new Error('Lookup failed'); },
+        onError: async (error) => ({
+          result: { content: [{ type: 'text', text: `Recovered: ${error.error.message}` }] }
+        })
+      };
+      
+      await manager.register(recoveringPlugin, { priority: 100 });
+      await manager.register(mockPlugin, { priority: 50 });
+      await manager.initializeAll();
+      
+      const result = await manager.executeBeforeHooks({ toolName: 'test-tool', args: {} });
+      
+      expect(result).toEqual({
+        result: { content: [{ type: 'text', text: 'Recovered: Lookup failed' }] }
+      });
+      expect(mockPlugin.beforeCallCount).toBe(0);
+    });
+    
+    it('should let the first recovering plugin handle tool errors', async () => {
+      const calls: string[] = [];
+      const observer: ProxyPlugin = {
+        name: 'observer-plugin',
+        version: '1.0.0',
+        onToolError: async (error) => { calls.push(`observer:${error.message}`); }
+      };
+      const fallback: ProxyPlugin = {
+        name: 'fallback-plugin',
+        version: '1.0.0',
+        onToolError: async () => {
+          calls.push('fallback');
+          return { result: { content: [{ type: 'text', text: 'fallback' }] } };
+        }
+      };
+      const later: ProxyPlugin = {
+        name: 'later-plugin',
+        version: '1.0.0',
+        onToolError: async () => {
+          calls.push('later');
+          return { result: { content: [{ type: 'text', text: 'later' }] } };
+        }
+      };
+      
+      await manager.register(later, { priority: 10 });
+      await manager.register(fallback, { priority: 50 });
+      await manager.register(observer, { priority: 100 });
+      await manager.initializeAll();
+      
+      const recovery = await manager.executeToolErrorHooks(
+        { toolName: 'test-tool', args: {} },
+        new Error('Upstream down')
+      );
+      
+      expect(calls).toEqual(['observer:Upstream down', 'fallback']);
+      expect(recovery?.result.content[0].text).toBe('fallback');
+      expect(recovery?.metadata?.recoveredBy).toBe('fallback-plugin');
+    });
+  });
+  
+  describe('Circuit Breaker', () => {
+    const flakyPlugin = (state: { fail: boolean; calls: number }): ProxyPlugin => ({
+      name: 'flaky-plugin',
+      version: '1.0.0',
+      beforeToolCall: async () => {
+        state.calls++;
+        if (state.fail) throw new Error('Backend unavailable');
+      }
+    });
+    const context: ToolCallContext = { toolName: 'test-tool', args: {} };
+    
+    it('should keep running a plugin after a single failure', async () => {
+      const state = { fail: true, calls: 0 };
+      await manager.register(flakyPlugin(state), { circuitBreaker: { failureThreshold: 3 } });
+      await manager.initializeAll();
+      
+      await manager.executeBeforeHooks(context);
+      await manager.executeBeforeHooks(context);
+      
+      expect(state.calls).toBe(2);
+      expect(manager.getCircuitState('flaky-plugin')).toBe('closed');
+    });
+    
+    it('should skip a fail-open plugin while its circuit is open and probe it later', async () => {
+      const state = { fail: true, calls: 0 };
+      await manager.register(flakyPlugin(state), {
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 30 }
+      });
+      await manager.initializeAll();
+      
+      await manager.executeBeforeHooks(context);
+      await manager.executeBeforeHooks(context);
+      await manager.executeBeforeHooks(context);
+      
+      expect(state.calls).toBe(2);
+      expect(manager.getCircuitState('flaky-plugin')).toBe('open');
+      
+      state.fail = false;
+      await new Promise(resolve => setTimeout(resolve, 40));
+      await manager.executeBeforeHooks(context);
+      
+      expect(state.calls).toBe(3);
+      expect(manager.getCircuitState('flaky-plugin')).toBe('closed');
+    });
+    
+    it('should block calls when a fail-closed plugin throws', async () => {
+      const state = { fail: true, calls: 0 };
+      await manager.register(flakyPlugin(state), { failureMode: 'fail-closed' });
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Backend unavailable');
+    });
+    
+    it('should block calls while a fail-closed plugin circuit is open', async () => {
+      const state = { fail: true, calls: 0 };
+      await manager.register(flakyPlugin(state), {
+        failureMode: 'fail-closed',
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 }
+      });
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Backend unavailable');
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('circuit open');
+      expect(state.calls).toBe(1);
+      
+      manager.resetCircuit('flaky-plugin');
+      state.fail = false;
+      await manager.executeBeforeHooks(context);
+      expect(state.calls).toBe(2);
+    });
+    
+    it('should close the circuit when a probe ends in a deliberate denial', async () => {
+      let outcome: 'crash' | 'deny' | 'pass' = 'crash';
+      let calls = 0;
+      await manager.register({
+        name: 'guard-plugin',
+        version: '1.0.0',
+        beforeToolCall: async () => {
+          calls++;
+          if (outcome === 'crash') throw new Error('Backend unavailable');
+          if (outcome === 'deny') throw new PluginAbortError('Access denied');
+        }
+      }, {
+        failureMode: 'fail-closed',
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 30 }
+      });
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Backend unavailable');
+      await new Promise(resolve => setTimeout(resolve, 40));
+      outcome = 'deny';
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Access denied');
+      
+      expect(manager.getCircuitState('guard-plugin')).toBe('closed');
+      outcome = 'pass';
+      await manager.executeBeforeHooks(context);
+      expect(calls).toBe(3);
+    });
+    
+    it('should emit circuit state changes', async () => {
+      const events: Array<{ pluginName: string; state: string }> = [];
+      manager.on('plugin:circuit', event => events.push(event));
+      
+      await manager.register(flakyPlugin({ fail: true, calls: 0 }), {
+        circuitBreaker: { failureThreshold: 1 }
+      });
+      await manager.initializeAll();
+      await manager.executeBeforeHooks(context);
+      
+      expect(events).toEqual([{ pluginName: 'flaky-plugin', state: 'open' }]);
+    });
+  });
+  
+  describe('Error Classification', () => {
+    const context: ToolCallContext = { toolName: 'test-tool', args: {} };
+    const throwingPlugin = (error: Error, extra: Partial<ProxyPlugin> = {}): ProxyPlugin => ({
+      name: 'throwing-plugin',
+      version: '1.0.0',
+      beforeToolCall: async () => { throw error; },
+      ...extra
+    });
+    
+    it('should abort on a PluginAbortError without counting it as a failure', async () => {
+      await manager.register(throwingPlugin(new PluginAbortError('Access denied')), {
+        circuitBreaker: { failureThreshold: 1 }
+      });
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Access denied');
+      expect(manager.getCircuitState('throwing-plugin')).toBe('closed');
+    });
+    
+    it('should abort on monetization errors', async () => {
+      await manager.register(throwingPlugin(new PaymentRequiredError()));
+      await manager.register(mockPlugin, { priority: 50 });
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Payment required');
+      expect(mockPlugin.beforeCallCount).toBe(0);
+    });
+    
+    it('should only log warnings and keep the plugin healthy', async () => {
+      const events: any[] = [];
+      manager.on('plugin:error', event => events.push(event));
+      
+      await manager.register(throwingPlugin(new PluginWarning('Cache miss')), { priority: 100 });
+      await manager.register(mockPlugin, { priority: 50 });
+      await manager.initializeAll();
+      
+      await manager.executeBeforeHooks(context);
+      
+      expect(mockPlugin.beforeCallCount).toBe(1);
+      expect(events[0].severity).toBe('warn');
+      const healthStatus = await manager.healthCheck();
+      expect(healthStatus.get('throwing-plugin')).toBe(true);
+    });
+    
+    it('should no longer abort on error messages that merely mention security', async () => {
+      await manager.register(throwingPlugin(new Error('security scanner unreachable')), { priority: 100 });
+      await manager.register(mockPlugin, { priority: 50 });
+      await manager.initializeAll();
+      
+      await manager.executeBeforeHooks(context);
+      
+      expect(mockPlugin.beforeCallCount).toBe(1);
+    });
+    
+    it('should let the plugin classify its own errors', async () => {
+      const plugin = throwingPlugin(new Error('Token expired'), {
+        classifyError: (error, phase) =>
+          phase === 'beforeToolCall' && error.message === 'Token expired' ? 'abort' : undefined
+      });
+      await manager.register(plugin);
+      await manager.initializeAll();
+      
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Token expired');
+    });
+  });
+  
+  describe('Runtime Changes', () => {
+    const context: ToolCallContext = { toolName: 'test-tool', args: {} };
+    
+    it('should initialize plugins registered after initializeAll', async () => {
+      await manager.initializeAll();
+      await manager.register(mockPlugin);
+      
+      expect(mockPlugin.initializeCalled).toBe(true);
+    });
+    
+    it('should not keep a late plugin whose initialization fails', async () => {
+      await manager.initializeAll();
+      
+      await expect(manager.register(new FailingPlugin())).rejects.toThrow('Initialization failed');
+      expect(manager.getPlugin('failing-plugin')).toBeUndefined();
+    });
+    
+    it('should reject late plugins with missing dependencies', async () => {
+      await manager.initializeAll();
+      
+      await expect(manager.register(new DependentPlugin())).rejects.toThrow("requires dependency 'base-plugin'");
+      expect(manager.getPlugin('dependent-plugin')).toBeUndefined();
+    });
+    
+    it('should apply configuration changes and emit plugin:configured', async () => {
+      const events: any[] = [];
+      manager.on('plugin:configured', event => events.push(event));
+      await manager.register(mockPlugin);
+      await manager.initializeAll();
+      
+      await manager.configure('mock-plugin', { includeTools: ['other-tool'], priority: 10 });
+      await manager.executeBeforeHooks(context);
+      
+      expect(mockPlugin.beforeCallCount).toBe(0);
+      expect(mockPlugin.config?.includeTools).toEqual(['other-tool']);
+      expect(events).toHaveLength(1);
+      expect(events[0].pluginName).toBe('mock-plugin');
+      expect(events[0].config.priority).toBe(10);
+    });
+    
+    it('should initialize a disabled plugin when it is enabled', async () => {
+      await manager.register(mockPlugin, { enabled: false });
+      await manager.initializeAll();
+      expect(mockPlugin.initializeCalled).toBe(false);
+      
+      await manager.configure('mock-plugin', { enabled: true });
+      await manager.executeBeforeHooks(context);
+      
+      expect(mockPlugin.initializeCalled).toBe(true);
+      expect(mockPlugin.beforeCallCount).toBe(1);
+    });
+    
+    it('should keep a draining plugin only for calls that started earlier', async () => {
+      await manager.register(mockPlugin);
+      await manager.initializeAll();
+      
+      const startedCall = manager.createPluginContext(context);
+      await manager.executeBeforeHooks(startedCall);
+      manager.drain('mock-plugin');
+      
+      await manager.executeAfterHooks(startedCall, { result: { content: [] } });
+      await manager.executeBeforeHooks(manager.createPluginContext(context));
+      
+      expect(mockPlugin.beforeCallCount).toBe(1);
+      expect(mockPlugin.afterCallCount).toBe(1);
+    });
+  });
+  
+  describe('Observer Plugins', () => {
+    const context: ToolCallContext = { toolName: 'test-tool', args: {} };
+    const toolResult: ToolCallResult = { result: { content: [] } };
+    
+    class ObserverPlugin extends BasePlugin {
+      version = '1.0.0';
+      kind = 'observer' as const;
+      
+      public seen: ToolCallResult[] = [];
+      public events: string[] = [];
+      public release: () => void = () => undefined;
+      private gate: Promise<void> = Promise.resolve();
+      
+      constructor(public name: string, blocked = false) {
+        super();
+        if (blocked) {
+          this.gate = new Promise(resolve => { this.release = resolve; });
+        }
+      }
+      
+      async afterToolCall(_context: any, result: ToolCallResult): Promise<ToolCallResult> {
+        await this.gate;
+        this.seen.push(result);
+        return { ...result, metadata: { changedBy: this.name } };
+      }
+      
+      async destroy(): Promise<void> {
+        this.events.push('destroy');
+      }
+    }
+    
+    it('should return without waiting for observers, which see the final result', async () => {
+      const observer = new ObserverPlugin('audit', true);
+      await manager.register(observer, { priority: 500 });
+      await manager.register({
+        name: 'transformer',
+        version: '1.0.0',
+        afterToolCall: async (_context, result) => ({ ...result, metadata: { transformed: true } })
+      });
+      await manager.initializeAll();
+      
+      const result = await manager.executeAfterHooks(context, toolResult);
+      
+      expect(result.metadata).toEqual({ transformed: true });
+      expect(observer.seen).toHaveLength(0);
+      expect(manager.getObserverStats().running).toBe(1);
+      
+      observer.release();
+      await manager.settleObservers();
+      
+      expect(observer.seen).toEqual([result]);
+    });
+    
+    it('should run observers concurrently up to the configured limit', async () => {
+      manager = new DefaultPluginManager('1.0.0', { observerConcurrency: 2 });
+      const observers = ['a', 'b', 'c'].map(name => new ObserverPlugin(name, true));
+      for (const observer of observers) {
+        await manager.register(observer);
+      }
+      await manager.initializeAll();
+      
+      await manager.executeAfterHooks(context, toolResult);
+      
+      expect(manager.getObserverStats()).toEqual({ queued: 1, running: 2 });
+      
+      observers.forEach(observer => observer.release());
+      await manager.settleObservers();
+      
+      expect(observers.every(observer => observer.seen.length === 1)).toBe(true);
+    });
+    
+    it('should make calls wait while the observer queue is full', async () => {
+      manager = new DefaultPluginManager('1.0.0', { observerConcurrency: 1, observerQueueSize: 1 });
+      const observer = new ObserverPlugin('audit', true);
+      await manager.register(observer);
+      await manager.initializeAll();
+      
+      await manager.executeAfterHooks(context, toolResult);
+      await manager.executeAfterHooks(context, toolResult);
+      
+      let thirdDone = false;
+      const third = manager.executeAfterHooks(context, toolResult).then(() => { thirdDone = true; });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(thirdDone).toBe(false);
+      
+      observer.release();
+      await third;
+      await manager.settleObservers();
+      
+      expect(observer.seen).toHaveLength(3);
+    });
+    
+    it('should record observer errors without affecting the result', async () => {
+      const errors: any[] = [];
+      manager.on('plugin:error', error => errors.push(error));
+      await manager.register({
+        name: 'broken-observer',
+        version: '1.0.0',
+        kind: 'observer',
+        afterToolCall: async () => { throw new Error('Observer failed'); }
+      });
+      await manager.initializeAll();
+      
+      const result = await manager.executeAfterHooks(context, toolResult);
+      await manager.settleObservers();
+      
+      expect(result).toBe(toolResult);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].phase).toBe('afterToolCall');
+      expect(errors[0].error.message).toBe('Observer failed');
+    });
+    
+    it('should finish queued observer work before unregistering the plugin', async () => {
+      const observer = new ObserverPlugin('audit', true);
+      const events = observer.events;
+      await manager.register(observer);
+      await manager.initializeAll();
+      
+      await manager.executeAfterHooks(context, toolResult);
+      const removal = manager.unregister('audit').then(() => events.push('unregistered'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(events).toEqual([]);
+      
+      observer.release();
+      await removal;
+      
+      expect(observer.seen).toHaveLength(1);
+      expect(events).toEqual(['destroy', 'unregistered']);
+    });
+  });
+  
+  describe('Timeouts and Cancellation', () => {
+    const context: ToolCallContext = { toolName: 'test-tool', args: {} };
+    
+    const waitForAbort = (signal: AbortSignal) => new Promise<void>(resolve => {
+      signal.addEventListener('abort', () => resolve(), { once: true });
+    });
+    
+    it('should time hooks out by the plugin setting for the phase', async () => {
+      manager = new DefaultPluginManager('1.0.0', { defaultTimeout: 5000 });
+      await manager.register({
+        name: 'slow-plugin',
+        version: '1.0.0',
+        beforeToolCall: () => new Promise(resolve => setTimeout(resolve, 1000))
+      }, { timeouts: { default: 2000, beforeToolCall: 20 } });
+      await manager.initializeAll();
+      
+      const started = Date.now();
+      await expect(manager.executeBeforeHooks(context)).rejects.toThrow('Plugin slow-plugin beforeToolCall timed out after 20ms');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+    
+    it('should fall back to the plugin default timeout', async () => {
+      await manager.register({
+        name: 'slow-plugin',
+        version: '1.0.0',
+        afterToolCall: async (_context, result) => {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          return result;
+        }
+      }, { timeouts: { default: 20, beforeToolCall: 5000 } });
+      await manager.initializeAll();
+      
+      await expect(manager.executeAfterHooks(context, { result: { content: [] } })).rejects.toThrow('timed out after 20ms');
+    });
+    
+    it('should abort the call signal when a timeout ends the call', async () => {
+      let abortReason: unknown;
+      await manager.register({
+        name: 'payment-plugin',
+        version: '1.0.0',
+        beforeToolCall: async context => {
+          await waitForAbort(context.signal!);
+          abortReason = context.signal!.reason;
+        }
+      }, { timeouts: { beforeToolCall: 20 } });
+      await manager.initializeAll();
+      
+      const pluginContext = manager.createPluginContext(context);
+      await expect(manager.executeBeforeHooks(pluginContext)).rejects.toThrow(PluginTimeoutError);
+      await new Promise(resolve => setImmediate(resolve));
+      
+      expect(pluginContext.signal.aborted).toBe(true);
+      expect(abortReason).toBeInstanceOf(PluginTimeoutError);
+    });
+    
+    it('should keep the call signal when a timeout does not end the call', async () => {
+      await manager.register({
+        name: 'optional-plugin',
+        version: '1.0.0',
+        classifyError: () => 'warn',
+        beforeToolCall: () => new Promise(resolve => setTimeout(resolve, 1000))
+      }, { timeouts: { beforeToolCall: 20 } });
+      await manager.initializeAll();
+      
+      const pluginContext = manager.createPluginContext(context);
+      await manager.executeBeforeHooks(pluginContext);
+      
+      expect(pluginContext.signal.aborted).toBe(false);
+    });
+    
+    it('should follow the client signal', async () => {
+      const client = new AbortController();
+      const pluginContext = manager.createPluginContext(context, undefined, client.signal);
+      
+      client.abort('cancelled by client');
+      
+      expect(pluginContext.signal.aborted).toBe(true);
+      expect(pluginContext.signal.reason).toBe('cancelled by client');
+    });
   });
   
   describe('Event Emission', () => {
@@ -0,0 +1,122 @@
+/**
+ * @file Cancellation Tests
+ *
+ * Tests that the call signal on the plugin context follows client
+ * cancellation and plugin timeouts, and reaches the wrapped handler, and that
+ * each hook invocation has its own signal, aborted when that hook times out.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyWrapperOptions } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, PluginErrorSeverity } from '../interfaces/plugin.js';
+
+class SignalWatchingPlugin extends BasePlugin {
+  name = 'signal-watching-plugin';
+  version = '1.0.0';
+  
+  public signals: AbortSignal[] = [];
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.signals.push(context.signal!);
+    
+    if (context.toolName === 'stuck-before') {
+      await new Promise(resolve => context.signal!.addEventListener('abort', resolve, { once: true }));
+    }
+  }
+}
+
+/**
+ * Waits out its timeout, but asks for the timeout to be skipped
+ */
+class SlowOptionalPlugin extends SignalWatchingPlugin {
+  name = 'slow-optional-plugin';
+  
+  classifyError(): PluginErrorSeverity {
+    return 'skip-plugin';
+  }
+}
+
+describe('Call Cancellation', () => {
+  let server: McpServer;
+  let client: Client;
+  let plugin: SignalWatchingPlugin;
+  let toolSignals: AbortSignal[];
+  
+  async function setup(options: ProxyWrapperOptions): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.tool('wait-for-abort', async extra => {
+      toolSignals.push(extra.signal);
+      await new Promise(resolve => extra.signal.addEventListener('abort', resolve, { once: true }));
+      return { content: [{ type: 'text', text: 'aborted' }] };
+    });
+    
+    proxiedServer.tool('stuck-before', async extra => {
+      toolSignals.push(extra.signal);
+      return { content: [{ type: 'text', text: 'ran' }] };
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    plugin = new SignalWatchingPlugin();
+    toolSignals = [];
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should pass the call signal to the tool handler and abort it and the hook signals on client cancellation', async () => {
+    await setup({ plugins: [plugin] });
+    const controller = new AbortController();
+    
+    const call = client.callTool({ name: 'wait-for-abort', arguments: {} }, CallToolResultSchema, { signal: controller.signal });
+    while (toolSignals.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    
+    expect(plugin.signals[0].aborted).toBe(false);
+    
+    controller.abort(new Error('User pressed stop'));
+    await expect(call).rejects.toThrow('User pressed stop');
+    
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(toolSignals[0].aborted).toBe(true);
+    expect(plugin.signals[0].aborted).toBe(true);
+  });
+  
+  it('should abort a timed-out hook and never run the tool', async () => {
+    await setup({ plugins: [{ plugin, config: { timeouts: { beforeToolCall: 30 } } }] });
+    
+    const result = await client.callTool({ name: 'stuck-before', arguments: {} });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('timed out after 30ms');
+    expect(result._meta).toEqual({ code: 'PLUGIN_TIMEOUT' });
+    expect(plugin.signals[0].aborted).toBe(true);
+    expect(toolSignals).toHaveLength(0);
+  });
+  
+  it('should abort a timed-out hook whose timeout does not end the call', async () => {
+    const slow = new SlowOptionalPlugin();
+    await setup({ plugins: [{ plugin: slow, config: { timeouts: { beforeToolCall: 30 } } }] });
+    
+    const result = await client.callTool({ name: 'stuck-before', arguments: {} });
+    
+    expect((result.content as any)[0].text).toBe('ran');
+    expect(slow.signals[0].aborted).toBe(true);
+    expect(slow.signals[0].reason.message).toContain('timed out after 30ms');
+    expect(toolSignals[0].aborted).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @file Error Mapping Tests
+ *
+ * Tests that errors reach clients as MCP error shapes that keep their codes,
+ * using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ErrorMapper } from '../utils/error-mapper.js';
+import { ProxyWrapperOptions, ErrorMapping } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, PluginAbortError, PluginUnavailableError } from '../interfaces/plugin.js';
+
+class QuotaExceededError extends PluginAbortError {
+  constructor(public retryAfter: number) {
+    super('Quota exceeded', { code: 'QUOTA_EXCEEDED', statusCode: 429 });
+  }
+}
+
+class CrashingPlugin extends BasePlugin {
+  name = 'crashing-plugin';
+  version = '1.0.0';
+  
+  async beforeToolCall(): Promise<void> {
+    throw new Error('Backend unavailable');
+  }
+}
+
+class QuotaPlugin extends BasePlugin {
+  name = 'quota-plugin';
+  version = '1.0.0';
+  
+  readonly errorMappings: ErrorMapping[] = [
+    {
+      errorType: QuotaExceededError,
+      map: error => ({
+        code: 'QUOTA_EXCEEDED',
+        statusCode: 429,
+        retryAfter: (error as QuotaExceededError).retryAfter
+      })
+    }
+  ];
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    if (context.toolName === 'limited') {
+      throw new QuotaExceededError(60);
+    }
+  }
+}
+
+describe('Error Mapping', () => {
+  let server: McpServer;
+  let client: Client;
+  
+  async function setup(options: ProxyWrapperOptions): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.tool('limited', { value: z.string() }, async ({ value }) => ({
+      content: [{ type: 'text', text: value }]
+    }));
+    
+    proxiedServer.tool('broken', async () => {
+      throw new Error('Handler exploded');
+    });
+    
+    proxiedServer.resource('config', 'config://app', async () => {
+      throw new PluginAbortError('Config locked', { code: 'CONFIG_LOCKED' });
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should keep codes from plugin error mappings in the result _meta', async () => {
+    await setup({ plugins: [new QuotaPlugin()] });
+    
+    const result = await client.callTool({ name: 'limited', arguments: { value: 'x' } });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toBe('Error: Plugin error: Quota exceeded');
+    expect(result._meta).toEqual({ code: 'QUOTA_EXCEEDED', statusCode: 429, retryAfter: 60 });
+  });
+  
+  it('should report unmapped errors as internal errors', async () => {
+    await setup({});
+    
+    const result = await client.callTool({ name: 'broken', arguments: {} });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toBe('Error: Handler exploded');
+    expect(result._meta).toEqual({ code: 'INTERNAL_ERROR' });
+  });
+  
+  it('should report open fail-closed circuits as retryable unavailable errors', async () => {
+    await setup({
+      plugins: [{
+        plugin: new CrashingPlugin(),
+        config: { failureMode: 'fail-closed', circuitBreaker: { failureThreshold: 1, resetTimeout: 30000 } }
+      }]
+    });
+    
+    await client.callTool({ name: 'limited', arguments: { value: 'x' } });
+    const result = await client.callTool({ name: 'limited', arguments: { value: 'x' } });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('Plugin crashing-plugin is unavailable (circuit open)');
+    expect(result._meta).toEqual({ code: 'PLUGIN_UNAVAILABLE', statusCode: 503, retryAfter: 30 });
+  });
+  
+  it('should let configured mappings take precedence over plugin mappings', async () => {
+    await setup({
+      plugins: [new QuotaPlugin()],
+      errorMappings: [
+        {
+          errorType: QuotaExceededError,
+          map: () => ({ code: 'SLOW_DOWN', message: 'Try again later', upgradeUrl: 'https://example.com/upgrade' })
+        }
+      ]
+    });
+    
+    const result = await client.callTool({ name: 'limited', arguments: { value: 'x' } });
+    
+    expect((result.content as any)[0].text).toBe('Error: Try again later');
+    expect(result._meta).toEqual({ code: 'SLOW_DOWN', upgradeUrl: 'https://example.com/upgrade' });
+  });
+  
+  it('should raise tool errors mapped to the jsonrpc shape as JSON-RPC errors', async () => {
+    await setup({
+      plugins: [new QuotaPlugin()],
+      errorMappings: [
+        {
+          errorType: QuotaExceededError,
+          map: error => ({
+            code: 'QUOTA_EXCEEDED',
+            shape: 'jsonrpc',
+            jsonRpcCode: -32029,
+            retryAfter: (error as QuotaExceededError).retryAfter
+          })
+        }
+      ]
+    });
+    
+    const error = await client.callTool({ name: 'limited', arguments: { value: 'x' } }).catch(e => e);
+    
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(-32029);
+    expect(error.message).toContain('Plugin error: Quota exceeded');
+  });
+  
+  it('should use the configured default shape for tool errors', async () => {
+    await setup({ toolErrorShape: 'jsonrpc' });
+    
+    const error = await client.callTool({ name: 'broken', arguments: {} }).catch(e => e);
+    
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('Handler exploded');
+  });
+  
+  it('should map resource read errors to JSON-RPC errors', async () => {
+    await setup({
+      errorMappings: [
+        {
+          errorType: PluginAbortError,
+          map: error => ({ code: (error as PluginAbortError).code, jsonRpcCode: ErrorCode.InvalidRequest })
+        }
+      ]
+    });
+    
+    const error = await client.readResource({ uri: 'config://app' }).catch(e => e);
+    
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain('Config locked');
+  });
+});
+
+describe('ErrorMapper', () => {
+  it('should map by the first recognised error in the cause chain', () => {
+    const mapper = new ErrorMapper(() => []);
+    const wrapped = new Error('Plugin error: Denied', {
+      cause: new PluginAbortError('Denied', { code: 'DENIED', statusCode: 403 })
+    });
+    
+    const mapped = mapper.map(wrapped);
+    
+    expect(mapped).toEqual({ code: 'DENIED', statusCode: 403, shape: 'result', message: 'Plugin error: Denied' });
+  });
+  
+  it('should map unavailable plugins to a retryable status', () => {
+    const mapper = new ErrorMapper(() => []);
+    
+    const mapped = mapper.map(new PluginUnavailableError('auth-plugin', 30));
+    
+    expect(mapped).toMatchObject({ code: 'PLUGIN_UNAVAILABLE', statusCode: 503, retryAfter: 30 });
+  });
+  
+  it('should put the error details on the JSON-RPC error data', () => {
+    const mapper = new ErrorMapper(() => [
+      { map: () => ({ code: 'BUSY', retryAfter: 5, data: { region: 'eu' } }) }
+    ], 'jsonrpc');
+    
+    const error = mapper.toMcpError(mapper.map(new Error('Busy')));
+    
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.data).toEqual({ code: 'BUSY', retryAfter: 5, region: 'eu' });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * @file Tool Registration Overload Tests
+ * 
+ * Tests that every McpServer registration overload, the config-object
+ * registerTool, registerResource and registerPrompt APIs where the SDK has
+ * them, and registrations made before wrapping all run through the proxy
+ * without losing tool definition details.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ToolCallContext } from '../interfaces/proxy-hooks.js';
+
+describe('Tool Registration Overloads', () => {
+  let server: McpServer;
+  let client: Client;
+  let hookCalls: string[];
+  
+  const options = () => ({
+    hooks: {
+      beforeToolCall: async (context: ToolCallContext) => {
+        hookCalls.push(`before:${context.toolName}`);
+      }
+    }
+  });
+  
+  async function connect(proxiedServer: McpServer): Promise<void> {
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    hookCalls = [];
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should handle tool(name, description, paramsSchema, cb)', async () => {
+    const proxiedServer = await wrapWithProxy(server, options());
+    proxiedServer.tool('greet', 'Greets someone', { name: z.string() }, async ({ name }) => ({
+      content: [{ type: 'text', text: `Hello, ${name}!` }]
+    }));
+    await connect(proxiedServer);
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'greet', arguments: { name: 'World' } });
+    
+    expect(tools[0].description).toBe('Greets someone');
+    expect((result.content as any)[0].text).toBe('Hello, World!');
+    expect(hookCalls).toEqual(['before:greet']);
+  });
+  
+  it('should handle tool(name, description, annotations, cb) as a zero-argument tool', async () => {
+    const proxiedServer = await wrapWithProxy(server, options());
+    proxiedServer.tool('ping', 'Health probe', { readOnlyHint: true }, async (extra: any) => ({
+      content: [{ type: 'text', text: extra.signal ? 'pong' : 'missing extra' }]
+    }));
+    await connect(proxiedServer);
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+    
+    expect(tools[0].description).toBe('Health probe');
+    expect(tools[0].annotations).toEqual({ readOnlyHint: true });
+    expect((result.content as any)[0].text).toBe('pong');
+    expect(hookCalls).toEqual(['before:ping']);
+  });
+  
+  it('should handle tool(name, paramsSchema, annotations, cb)', async () => {
+    const proxiedServer = await wrapWithProxy(server, options());
+    proxiedServer.tool('delete', { id: z.number() }, { destructiveHint: true }, async ({ id }) => ({
+      content: [{ type: 'text', text: `Deleted ${id}` }]
+    }));
+    await connect(proxiedServer);
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'delete', arguments: { id: 7 } });
+    
+    expect(tools[0].annotations).toEqual({ destructiveHint: true });
+    expect((result.content as any)[0].text).toBe('Deleted 7');
+  });
+  
+  it('should handle registerTool with input and output schemas', async () => {
+    const proxiedServer = await wrapWithProxy(server, options());
+    proxiedServer.registerTool('add', {
+      description: 'Adds two numbers',
+      inputSchema: { a: z.number(), b: z.number() },
+      outputSchema: { sum: z.number() },
+      annotations: { idempotentHint: true }
+    }, async ({ a, b }) => ({
+      content: [{ type: 'text', text: String(a + b) }],
+      structuredContent: { sum: a + b }
+    }));
+    await connect(proxiedServer);
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'add', arguments: { a: 2, b: 3 } });
+    
+    expect(tools[0].description).toBe('Adds two numbers');
+    expect(tools[0].outputSchema).toBeDefined();
+    expect(tools[0].annotations).toEqual({ idempotentHint: true });
+    expect(result.structuredContent).toEqual({ sum: 5 });
+    expect(hookCalls).toEqual(['before:add']);
+  });
+  
+  it('should wrap registerResource and registerPrompt on SDKs that have them', async () => {
+    const reads: string[] = [];
+    const registry = server as any;
+    const resource = server.resource.bind(server);
+    const prompt = server.prompt.bind(server);
+    
+    // Stand in for the config-object methods of newer SDK releases
+    registry.registerResource = (name: string, uri: string, config: any, readCallback: any) =>
+      resource(name, uri, config, readCallback);
+    registry.registerPrompt = (name: string, config: any, callback: any) =>
+      prompt(name, config.description, callback);
+    
+    const proxiedServer = await wrapWithProxy(server, {
+      hooks: {
+        beforeResourceRead: async context => {
+          reads.push(`resource:${context.resourceName}`);
+        },
+        beforePromptGet: async context => {
+          reads.push(`prompt:${context.promptName}`);
+        }
+      }
+    });
+    registry.registerResource('readme', 'file:///readme', { mimeType: 'text/plain' }, async (uri: URL) => ({
+      contents: [{ uri: uri.href, text: 'Read me' }]
+    }));
+    registry.registerPrompt('greeting', { description: 'Says hello' }, async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Hello' } }]
+    }));
+    await connect(proxiedServer);
+    
+    const resourceResult = await client.readResource({ uri: 'file:///readme' });
+    const promptResult = await client.getPrompt({ name: 'greeting' });
+    
+    expect(resourceResult.contents[0].text).toBe('Read me');
+    expect(promptResult.messages[0].content.text).toBe('Hello');
+    expect(reads).toEqual(['resource:readme', 'prompt:greeting']);
+  });
+  
+  it('should wrap servers from SDK releases without registerTool', async () => {
+    // Stand in for an SDK release that predates the config-object methods
+    (server as any).registerTool = undefined;
+    
+    const proxiedServer = await wrapWithProxy(server, options());
+    proxiedServer.tool('ping', async () => ({
+      content: [{ type: 'text', text: 'pong' }]
+    }));
+    await connect(proxiedServer);
+    
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+    
+    expect(proxiedServer.registerTool).toBeUndefined();
+    expect((result.content as any)[0].text).toBe('pong');
+    expect(hookCalls).toEqual(['before:ping']);
+  });
+  
+  it('should retroactively wrap tools registered before wrapping', async () => {
+    server.tool('early', { message: z.string() }, async ({ message }) => ({
+      content: [{ type: 'text', text: `Early: ${message}` }]
+    }));
+    
+    const proxiedServer = await wrapWithProxy(server, options());
+    await connect(proxiedServer);
+    
+    const result = await client.callTool({ name: 'early', arguments: { message: 'hi' } });
+    
+    expect((result.content as any)[0].text).toBe('Early: hi');
+    expect(hookCalls).toEqual(['before:early']);
+  });
+  
+  it('should retroactively wrap prompts registered before wrapping', async () => {
+    const promptCalls: string[] = [];
+    server.prompt('early-prompt', async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Early prompt' } }]
+    }));
+    
+    const proxiedServer = await wrapWithProxy(server, {
+      hooks: {
+        beforePromptGet: async (context) => {
+          promptCalls.push(context.promptName);
+        }
+      }
+    });
+    await connect(proxiedServer);
+    
+    const result = await client.getPrompt({ name: 'early-prompt' });
+    
+    expect(result.messages[0].content.text).toBe('Early prompt');
+    expect(promptCalls).toEqual(['early-prompt']);
+  });
+  
+  it('should wrap callbacks supplied through update() and follow renames', async () => {
+    const proxiedServer = await wrapWithProxy(server, options());
+    const registered = proxiedServer.tool('old-name', async () => ({
+      content: [{ type: 'text', text: 'old' }]
+    }));
+    registered.update({
+      name: 'new-name',
+      callback: async () => ({
+        content: [{ type: 'text', text: 'new' }]
+      })
+    });
+    await connect(proxiedServer);
+    
+    const result = await client.callTool({ name: 'new-name', arguments: {} });
+    
+    expect((result.content as any)[0].text).toBe('new');
+    expect(hookCalls).toEqual(['before:new-name']);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @file Request Context Tests
+ *
+ * Tests that details of the MCP request (session, auth info, progress token,
+ * notification sender) reach hooks on the call context, and that progress
+ * notifications from tools and plugins reach the client through the plugins,
+ * using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, Progress } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import {
+  ProxyWrapperOptions,
+  ToolCallContext,
+  ToolCallResult,
+  McpRequestContext,
+  ProgressUpdate
+} from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext } from '../interfaces/plugin.js';
+
+class RequestRecordingPlugin extends BasePlugin {
+  name = 'request-recording-plugin';
+  version = '1.0.0';
+  
+  public requests: (McpRequestContext | undefined)[] = [];
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.requests.push(context.request);
+  }
+}
+
+class StagePlugin extends BasePlugin {
+  name = 'stage-plugin';
+  version = '1.0.0';
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    await context.reportProgress!(0, 4, 'Billing');
+  }
+  
+  async onProgress(_context: PluginContext, update: ProgressUpdate): Promise<void | ProgressUpdate> {
+    // Fit the tool's own two steps between the billing and summarizing stages
+    if (update.origin === 'tool') {
+      return { ...update, progress: update.progress + 1, total: 4 };
+    }
+  }
+  
+  async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    await context.reportProgress!(4, 4, 'Summarizing');
+    return result;
+  }
+}
+
+describe('Request Context', () => {
+  let server: McpServer;
+  let client: Client;
+  let toolArgs: Record<string, any>[];
+  
+  async function setup(options: ProxyWrapperOptions): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.tool('echo', { text: z.string() }, async args => {
+      toolArgs.push(args);
+      return { content: [{ type: 'text', text: args.text }] };
+    });
+    
+    proxiedServer.tool('long-task', async extra => {
+      const progressToken = extra._meta?.progressToken;
+      if (progressToken !== undefined) {
+        for (const progress of [1, 2]) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total: 2, message: `Step ${progress}` }
+          });
+        }
+      }
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+    
+    proxiedServer.prompt('greeting', async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Hello' } }]
+    }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    serverTransport.sessionId = 'session-1';
+    
+    // Stand in for a transport that authenticates requests
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, sendOptions) => send(message, {
+      ...sendOptions,
+      authInfo: { token: 'token-123', clientId: 'client-1', scopes: ['tools'] }
+    });
+    
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    toolArgs = [];
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should expose session, auth info and request metadata to plugins', async () => {
+    const plugin = new RequestRecordingPlugin();
+    await setup({ plugins: [plugin] });
+    
+    await client.callTool({ name: 'echo', arguments: { text: 'hi' }, _meta: { progressToken: 'progress-1' } });
+    
+    const request = plugin.requests[0]!;
+    expect(request.sessionId).toBe('session-1');
+    expect(request.authInfo).toEqual({ token: 'token-123', clientId: 'client-1', scopes: ['tools'] });
+    expect(request.progressToken).toBe('progress-1');
+    expect(request.meta).toEqual({ progressToken: 'progress-1' });
+    expect(request.id).toBeDefined();
+    expect(request.signal).toBeInstanceOf(AbortSignal);
+    expect(typeof request.sendNotification).toBe('function');
+  });
+  
+  it('should keep the request out of the tool arguments', async () => {
+    await setup({ plugins: [new RequestRecordingPlugin()] });
+    
+    await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    
+    expect(toolArgs).toEqual([{ text: 'hi' }]);
+  });
+  
+  it('should expose the request to user hooks without plugins', async () => {
+    const contexts: ToolCallContext[] = [];
+    await setup({
+      hooks: {
+        beforeToolCall: async context => { contexts.push(context); }
+      }
+    });
+    
+    await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    
+    expect(contexts[0].request?.authInfo?.token).toBe('token-123');
+  });
+  
+  it('should expose the request on prompt contexts', async () => {
+    const sessions: (string | undefined)[] = [];
+    await setup({
+      hooks: {
+        beforePromptGet: async context => { sessions.push(context.request?.sessionId); }
+      }
+    });
+    
+    await client.getPrompt({ name: 'greeting' });
+    
+    expect(sessions).toEqual(['session-1']);
+  });
+  
+  describe('Progress Notifications', () => {
+    const callWithProgress = async (name: string) => {
+      const updates: Progress[] = [];
+      await client.callTool({ name, arguments: {} }, CallToolResultSchema, {
+        onprogress: progress => { updates.push(progress); }
+      });
+      return updates;
+    };
+    
+    it('should pass tool progress through unchanged without plugins', async () => {
+      await setup({});
+      
+      expect(await callWithProgress('long-task')).toEqual([
+        { progress: 1, total: 2, message: 'Step 1' },
+        { progress: 2, total: 2, message: 'Step 2' }
+      ]);
+    });
+    
+    it('should send plugin stages and let plugins rewrite tool progress', async () => {
+      await setup({ plugins: [new StagePlugin()] });
+      
+      expect(await callWithProgress('long-task')).toEqual([
+        { progress: 0, total: 4, message: 'Billing' },
+        { progress: 2, total: 4, message: 'Step 1' },
+        { progress: 3, total: 4, message: 'Step 2' },
+        { progress: 4, total: 4, message: 'Summarizing' }
+      ]);
+    });
+    
+    it('should drop updates that do not increase progress', async () => {
+      await setup({
+        plugins: [{
+          name: 'late-stage-plugin',
+          version: '1.0.0',
+          beforeToolCall: async context => { await context.reportProgress!(5); }
+        }]
+      });
+      
+      expect(await callWithProgress('long-task')).toEqual([{ progress: 5 }]);
+    });
+    
+    it('should not send progress the client did not ask for', async () => {
+      const notifications: unknown[] = [];
+      await setup({ plugins: [new StagePlugin()] });
+      client.fallbackNotificationHandler = async notification => { notifications.push(notification); };
+      
+      const result = await client.callTool({ name: 'long-task', arguments: {} });
+      
+      expect((result.content as any)[0].text).toBe('done');
+      expect(notifications).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @file Resource and Prompt Interception Tests
+ * 
+ * Tests that resource reads and prompt gets run through user hooks and
+ * plugins using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyWrapperOptions, ResourceReadResult, PromptGetResult } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, ResourcePluginContext, PromptPluginContext } from '../interfaces/plugin.js';
+
+class RecordingPlugin extends BasePlugin {
+  name = 'recording-plugin';
+  version = '1.0.0';
+  
+  public calls: string[] = [];
+  
+  async beforeResourceRead(context: ResourcePluginContext): Promise<void | ResourceReadResult> {
+    this.calls.push(`beforeResourceRead:${context.uri}`);
+    if (context.uri === 'config://blocked') {
+      return {
+        result: { contents: [{ uri: context.uri, text: 'Blocked by plugin' }] }
+      };
+    }
+  }
+  
+  async afterResourceRead(context: ResourcePluginContext, result: ResourceReadResult): Promise<ResourceReadResult> {
+    this.calls.push(`afterResourceRead:${context.uri}`);
+    return {
+      ...result,
+      metadata: { ...result.metadata, readBy: this.name }
+    };
+  }
+  
+  async beforePromptGet(context: PromptPluginContext): Promise<void> {
+    this.calls.push(`beforePromptGet:${context.promptName}`);
+    if (context.args.topic) {
+      context.args.topic = context.args.topic.toUpperCase();
+    }
+  }
+  
+  async afterPromptGet(context: PromptPluginContext, result: PromptGetResult): Promise<PromptGetResult> {
+    this.calls.push(`afterPromptGet:${context.promptName}`);
+    return result;
+  }
+}
+
+describe('Resource and Prompt Interception', () => {
+  let server: McpServer;
+  let client: Client;
+  
+  async function setup(options: ProxyWrapperOptions): Promise<McpServer> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.resource('config', 'config://app', async (uri) => ({
+      contents: [{ uri: uri.href, text: 'app config' }]
+    }));
+    
+    proxiedServer.resource('blocked', 'config://blocked', async (uri) => ({
+      contents: [{ uri: uri.href, text: 'secret' }]
+    }));
+    
+    proxiedServer.resource(
+      'user-profile',
+      new ResourceTemplate('users://{userId}/profile', { list: undefined }),
+      { mimeType: 'text/plain' },
+      async (uri, variables) => ({
+        contents: [{ uri: uri.href, text: `profile of ${variables.userId}` }]
+      })
+    );
+    
+    proxiedServer.prompt('review', { topic: z.string() }, async ({ topic }) => ({
+      messages: [{ role: 'user', content: { type: 'text', text: `Review ${topic}` } }]
+    }));
+    
+    proxiedServer.prompt('hello', 'Says hello', async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Hello' } }]
+    }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    
+    return proxiedServer;
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  describe('Resources', () => {
+    it('should run user hooks around fixed resource reads', async () => {
+      const hookCalls: string[] = [];
+      await setup({
+        hooks: {
+          beforeResourceRead: async (context) => {
+            hookCalls.push(`before:${context.resourceName}:${context.uri}`);
+          },
+          afterResourceRead: async (context, result) => {
+            hookCalls.push(`after:${context.resourceName}`);
+            return result;
+          }
+        }
+      });
+      
+      const result = await client.readResource({ uri: 'config://app' });
+      
+      expect(result.contents[0].text).toBe('app config');
+      expect(hookCalls).toEqual(['before:config:config://app', 'after:config']);
+      expect(result._meta?.requestId).toBeDefined();
+    });
+    
+    it('should expose template variables to hooks', async () => {
+      let seenVariables: Record<string, string | string[]> | undefined;
+      await setup({
+        hooks: {
+          beforeResourceRead: async (context) => {
+            seenVariables = context.variables;
+          }
+        }
+      });
+      
+      const result = await client.readResource({ uri: 'users://42/profile' });
+      
+      expect(result.contents[0].text).toBe('profile of 42');
+      expect(seenVariables).toEqual({ userId: '42' });
+    });
+    
+    it('should run plugin hooks and allow short-circuiting', async () => {
+      const plugin = new RecordingPlugin();
+      await setup({ plugins: [plugin] });
+      
+      const blocked = await client.readResource({ uri: 'config://blocked' });
+      const allowed = await client.readResource({ uri: 'config://app' });
+      
+      expect(blocked.contents[0].text).toBe('Blocked by plugin');
+      expect(allowed.contents[0].text).toBe('app config');
+      expect(allowed._meta?.readBy).toBe('recording-plugin');
+      expect(plugin.calls).toEqual([
+        'beforeResourceRead:config://blocked',
+        'beforeResourceRead:config://app',
+        'afterResourceRead:config://app'
+      ]);
+    });
+    
+    it('should surface hook errors as protocol errors', async () => {
+      await setup({
+        hooks: {
+          beforeResourceRead: async () => {
+            throw new Error('Access denied');
+          }
+        }
+      });
+      
+      await expect(client.readResource({ uri: 'config://app' })).rejects.toThrow('Access denied');
+    });
+  });
+  
+  describe('Prompts', () => {
+    it('should let plugins modify prompt arguments', async () => {
+      const plugin = new RecordingPlugin();
+      await setup({ plugins: [plugin] });
+      
+      const result = await client.getPrompt({ name: 'review', arguments: { topic: 'code' } });
+      
+      expect(result.messages[0].content.text).toBe('Review CODE');
+      expect(plugin.calls).toEqual(['beforePromptGet:review', 'afterPromptGet:review']);
+    });
+    
+    it('should support prompts without an args schema', async () => {
+      const hookCalls: string[] = [];
+      await setup({
+        hooks: {
+          beforePromptGet: async (context) => {
+            hookCalls.push(`before:${context.promptName}`);
+          }
+        }
+      });
+      
+      const prompts = await client.listPrompts();
+      const result = await client.getPrompt({ name: 'hello' });
+      
+      expect(prompts.prompts.find(p => p.name === 'hello')?.description).toBe('Says hello');
+      expect(result.messages[0].content.text).toBe('Hello');
+      expect(hookCalls).toEqual(['before:hello']);
+    });
+    
+    it('should allow user hooks to short-circuit prompt gets', async () => {
+      await setup({
+        hooks: {
+          beforePromptGet: async () => ({
+            result: {
+              messages: [{ role: 'user', content: { type: 'text', text: 'Cached prompt' } }]
+            }
+          })
+        }
+      });
+      
+      const result = await client.getPrompt({ name: 'review', arguments: { topic: 'code' } });
+      
+      expect(result.messages[0].content.text).toBe('Cached prompt');
+    });
+  });
+});
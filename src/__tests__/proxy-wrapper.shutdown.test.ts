@@ -0,0 +1,225 @@
+/**
+ * @file Proxy Handle and Shutdown Tests
+ *
+ * Tests the control handle attached by wrapWithProxy: draining in-flight
+ * calls on shutdown, plugin teardown order, runtime plugin changes and
+ * runtime inspection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxiedMcpServer, ProxyWrapperOptions, ToolCallResult } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, PluginMetadata } from '../interfaces/plugin.js';
+
+class TeardownPlugin extends BasePlugin {
+  version = '1.0.0';
+  
+  constructor(
+    public name: string,
+    private events: string[],
+    public metadata?: PluginMetadata
+  ) {
+    super();
+  }
+  
+  async destroy(): Promise<void> {
+    this.events.push(`destroy:${this.name}`);
+  }
+}
+
+class TaggingPlugin extends BasePlugin {
+  name = 'tagging-plugin';
+  version = '1.0.0';
+  
+  public initialized = false;
+  
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+  
+  async afterToolCall(_context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    return { ...result, metadata: { ...result.metadata, taggedBy: this.name } };
+  }
+}
+
+describe('Proxy Handle', () => {
+  let server: McpServer;
+  let client: Client;
+  let events: string[];
+  let releaseSlowTool: () => void;
+  
+  async function setup(options: ProxyWrapperOptions = {}): Promise<ProxiedMcpServer> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    const slowToolDone = new Promise<void>(resolve => { releaseSlowTool = resolve; });
+    
+    proxiedServer.tool('slow', async () => {
+      events.push('slow:start');
+      await slowToolDone;
+      events.push('slow:end');
+      return { content: [{ type: 'text', text: 'slow done' }] };
+    });
+    
+    proxiedServer.tool('fast', async () => ({
+      content: [{ type: 'text', text: 'fast done' }]
+    }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    
+    return proxiedServer;
+  }
+  
+  const waitForEvent = async (event: string) => {
+    while (!events.includes(event)) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+  
+  beforeEach(() => {
+    events = [];
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    releaseSlowTool();
+    await client.close();
+  });
+  
+  it('should drain in-flight calls before destroying plugins', async () => {
+    const proxiedServer = await setup({ plugins: [new TeardownPlugin('teardown', events)] });
+    
+    const slowCall = client.callTool({ name: 'slow', arguments: {} });
+    await waitForEvent('slow:start');
+    
+    const shutdown = proxiedServer.proxy.shutdown({ timeout: 5000 });
+    releaseSlowTool();
+    await shutdown;
+    
+    expect((await slowCall).content).toEqual([{ type: 'text', text: 'slow done' }]);
+    expect(events).toEqual(['slow:start', 'slow:end', 'destroy:teardown']);
+  });
+  
+  it('should stop waiting for calls at the deadline', async () => {
+    const proxiedServer = await setup({ plugins: [new TeardownPlugin('teardown', events)] });
+    
+    const slowCall = client.callTool({ name: 'slow', arguments: {} }).catch(error => error);
+    await waitForEvent('slow:start');
+    
+    await proxiedServer.proxy.shutdown({ timeout: 50 });
+    
+    expect(events).toEqual(['slow:start', 'destroy:teardown']);
+    expect(await slowCall).toBeInstanceOf(Error);
+  });
+  
+  it('should refuse new calls once shutdown has started', async () => {
+    const proxiedServer = await setup();
+    
+    client.callTool({ name: 'slow', arguments: {} }).catch(() => undefined);
+    await waitForEvent('slow:start');
+    
+    const shutdown = proxiedServer.proxy.shutdown();
+    const refused = await client.callTool({ name: 'fast', arguments: {} });
+    
+    expect(refused.isError).toBe(true);
+    expect((refused.content as any)[0].text).toContain('Server is shutting down');
+    expect(proxiedServer.proxy.shutdown()).toBe(shutdown);
+    
+    releaseSlowTool();
+    await shutdown;
+  });
+  
+  it('should destroy plugins in reverse dependency order', async () => {
+    const proxiedServer = await setup({
+      plugins: [
+        new TeardownPlugin('dependent', events, { dependencies: ['base'] }),
+        new TeardownPlugin('base', events)
+      ]
+    });
+    
+    await proxiedServer.proxy.shutdown();
+    
+    expect(events).toEqual(['destroy:dependent', 'destroy:base']);
+  });
+  
+  it('should expose the plugin manager, health checks and statistics', async () => {
+    const proxiedServer = await setup({ plugins: [new TeardownPlugin('teardown', events)] });
+    
+    await client.callTool({ name: 'fast', arguments: {} });
+    
+    expect(proxiedServer.proxy.getPluginManager()?.getPlugin('teardown')).toBeDefined();
+    expect((await proxiedServer.proxy.healthCheck()).get('teardown')).toBe(true);
+    
+    const stats = await proxiedServer.proxy.getStats();
+    expect(stats.activeCalls).toBe(0);
+    expect(stats.totalCalls).toBe(1);
+    expect(stats.shuttingDown).toBe(false);
+    expect(stats.plugins).toBeDefined();
+  });
+  
+  it('should add and initialize plugins on a running proxy started without any', async () => {
+    const proxiedServer = await setup();
+    const plugin = new TaggingPlugin();
+    
+    await proxiedServer.proxy.addPlugin(plugin);
+    const result = await client.callTool({ name: 'fast', arguments: {} });
+    
+    expect(plugin.initialized).toBe(true);
+    expect(result._meta?.taggedBy).toBe('tagging-plugin');
+  });
+  
+  it('should keep a removed plugin in the path of calls already in flight', async () => {
+    const proxiedServer = await setup({ plugins: [new TaggingPlugin()] });
+    const unregistered: string[] = [];
+    proxiedServer.proxy.getPluginManager()!.on('plugin:unregistered', event => unregistered.push(event.pluginName));
+    
+    const slowCall = client.callTool({ name: 'slow', arguments: {} });
+    await waitForEvent('slow:start');
+    
+    const removal = proxiedServer.proxy.removePlugin('tagging-plugin');
+    const newCall = await client.callTool({ name: 'fast', arguments: {} });
+    expect(newCall._meta?.taggedBy).toBeUndefined();
+    expect(unregistered).toEqual([]);
+    
+    releaseSlowTool();
+    expect((await slowCall)._meta?.taggedBy).toBe('tagging-plugin');
+    await removal;
+    
+    expect(unregistered).toEqual(['tagging-plugin']);
+    expect(proxiedServer.proxy.getPluginManager()!.getPlugin('tagging-plugin')).toBeUndefined();
+  });
+  
+  it('should reconfigure plugins on a running proxy', async () => {
+    const proxiedServer = await setup({ plugins: [new TaggingPlugin()] });
+    
+    await proxiedServer.proxy.configurePlugin('tagging-plugin', { enabled: false });
+    const disabled = await client.callTool({ name: 'fast', arguments: {} });
+    
+    await proxiedServer.proxy.configurePlugin('tagging-plugin', { enabled: true, includeTools: ['fast'] });
+    const enabled = await client.callTool({ name: 'fast', arguments: {} });
+    
+    expect(disabled._meta?.taggedBy).toBeUndefined();
+    expect(enabled._meta?.taggedBy).toBe('tagging-plugin');
+  });
+  
+  it('should reject runtime changes to unknown plugins', async () => {
+    const proxiedServer = await setup();
+    
+    await expect(proxiedServer.proxy.removePlugin('missing')).rejects.toThrow("Plugin 'missing' is not registered");
+    await expect(proxiedServer.proxy.configurePlugin('missing', { enabled: false })).rejects.toThrow("Plugin 'missing' is not registered");
+  });
+  
+  it('should work without plugins', async () => {
+    const proxiedServer = await setup();
+    
+    expect(proxiedServer.proxy.getPluginManager()).toBeNull();
+    expect((await proxiedServer.proxy.healthCheck()).size).toBe(0);
+    expect((await proxiedServer.proxy.getStats()).plugins).toBeUndefined();
+    
+    await proxiedServer.proxy.shutdown();
+  });
+});
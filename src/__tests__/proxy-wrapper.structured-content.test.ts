@@ -0,0 +1,135 @@
+/**
+ * @file Structured Content Tests
+ *
+ * Tests that structuredContent survives the result pipeline and is validated
+ * against the tool's output schema after the after hooks run, using real MCP
+ * Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyWrapperOptions, ToolCallResult } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, PluginAbortError } from '../interfaces/plugin.js';
+
+class ResultRewritingPlugin extends BasePlugin {
+  version = '1.0.0';
+  
+  public outputSchemas: unknown[] = [];
+  
+  constructor(public name: string, private rewrite: (result: Record<string, any>) => Record<string, any>) {
+    super();
+  }
+  
+  async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    this.outputSchemas.push(context.outputSchema);
+    return { ...result, result: this.rewrite(result.result) };
+  }
+}
+
+const summarize = (result: Record<string, any>) => ({
+  ...result,
+  content: [{ type: 'text', text: 'Summary: mild' }]
+});
+
+describe('Structured Content', () => {
+  let server: McpServer;
+  let client: Client;
+  
+  async function setup(options: ProxyWrapperOptions): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.registerTool('weather', {
+      inputSchema: { city: z.string() },
+      outputSchema: { temperature: z.number(), conditions: z.string() }
+    }, async () => {
+      const forecast = { temperature: 21, conditions: 'sunny' };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(forecast) }],
+        structuredContent: forecast
+      };
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.listTools();
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should keep structuredContent when plugins only rewrite content', async () => {
+    const plugin = new ResultRewritingPlugin('summarizer', summarize);
+    await setup({ plugins: [plugin] });
+    
+    const result = await client.callTool({ name: 'weather', arguments: { city: 'Oslo' } });
+    
+    expect((result.content as any)[0].text).toBe('Summary: mild');
+    expect(result.structuredContent).toEqual({ temperature: 21, conditions: 'sunny' });
+    expect(result._meta?.structuredContentRestored).toBeUndefined();
+    expect(Object.keys((plugin.outputSchemas[0] as z.AnyZodObject).shape)).toEqual(['temperature', 'conditions']);
+  });
+  
+  it("should restore the tool's structuredContent when plugins invalidate it", async () => {
+    await setup({
+      plugins: [new ResultRewritingPlugin('flattener', result => ({
+        ...summarize(result),
+        structuredContent: { summary: 'mild' }
+      }))]
+    });
+    
+    const result = await client.callTool({ name: 'weather', arguments: { city: 'Oslo' } });
+    
+    expect((result.content as any)[0].text).toBe('Summary: mild');
+    expect(result.structuredContent).toEqual({ temperature: 21, conditions: 'sunny' });
+    expect(result._meta?.structuredContentRestored).toBe(true);
+  });
+  
+  it('should restore structuredContent that a plugin mutated in place', async () => {
+    await setup({
+      plugins: [new ResultRewritingPlugin('mutator', result => {
+        delete result.structuredContent.temperature;
+        return result;
+      })]
+    });
+    
+    const result = await client.callTool({ name: 'weather', arguments: { city: 'Oslo' } });
+    
+    expect(result.structuredContent).toEqual({ temperature: 21, conditions: 'sunny' });
+  });
+  
+  it("should fail the call under the 'error' policy", async () => {
+    await setup({
+      invalidStructuredContent: 'error',
+      plugins: [new ResultRewritingPlugin('dropper', ({ structuredContent: _dropped, ...rest }) => rest)]
+    });
+    
+    await expect(client.callTool({ name: 'weather', arguments: { city: 'Oslo' } })).rejects.toThrow(
+      "Structured content of tool 'weather' does not match its output schema: (root): Required"
+    );
+  });
+  
+  it('should surface hook errors of tools with an output schema', async () => {
+    await setup({
+      hooks: {
+        beforeToolCall: async () => {
+          throw new PluginAbortError('Payment required', { code: 'PAYMENT_REQUIRED' });
+        }
+      }
+    });
+    
+    await expect(client.callTool({ name: 'weather', arguments: { city: 'Oslo' } })).rejects.toThrow(
+      'Hook error: Payment required'
+    );
+  });
+});
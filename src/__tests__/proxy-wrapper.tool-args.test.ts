@@ -0,0 +1,149 @@
+/**
+ * @file Tool Argument Validation Tests
+ *
+ * Tests that the tool's input schema is exposed to hooks and that arguments
+ * rewritten by plugins and hooks are validated again before the tool runs,
+ * using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyWrapperOptions } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, PluginErrorSeverity } from '../interfaces/plugin.js';
+
+class ArgsRewritingPlugin extends BasePlugin {
+  version = '1.0.0';
+  
+  public schemas: unknown[] = [];
+  
+  constructor(public name: string, private rewrite: (args: Record<string, any>) => Record<string, any>) {
+    super();
+  }
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.schemas.push(context.toolSchema);
+    context.args = this.rewrite(context.args);
+  }
+}
+
+/**
+ * Rewrites arguments and asks for its own errors to be skipped
+ */
+class LenientArgsRewritingPlugin extends ArgsRewritingPlugin {
+  classifyError(): PluginErrorSeverity {
+    return 'skip-plugin';
+  }
+}
+
+describe('Tool Argument Validation', () => {
+  let server: McpServer;
+  let client: Client;
+  let toolArgs: Record<string, any>[];
+  
+  async function setup(options: ProxyWrapperOptions): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, options);
+    
+    proxiedServer.tool('repeat', { text: z.string(), times: z.number().int().default(1) }, async args => {
+      toolArgs.push(args);
+      return { content: [{ type: 'text', text: args.text.repeat(args.times) }] };
+    });
+    
+    proxiedServer.tool('ping', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    toolArgs = [];
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should expose the tool schema on the context', async () => {
+    const plugin = new ArgsRewritingPlugin('schema-reader', args => args);
+    await setup({ plugins: [plugin] });
+    
+    await client.callTool({ name: 'repeat', arguments: { text: 'a' } });
+    await client.callTool({ name: 'ping', arguments: {} });
+    
+    const schema = plugin.schemas[0] as z.AnyZodObject;
+    expect(Object.keys(schema.shape)).toEqual(['text', 'times']);
+    expect(plugin.schemas[1]).toBeUndefined();
+  });
+  
+  it('should pass valid rewrites to the tool', async () => {
+    await setup({
+      plugins: [new ArgsRewritingPlugin('shouter', args => ({ ...args, text: args.text.toUpperCase(), shouted: true }))]
+    });
+    
+    const result = await client.callTool({ name: 'repeat', arguments: { text: 'hi', times: 2 } });
+    
+    expect((result.content as any)[0].text).toBe('HIHI');
+    expect(toolArgs).toEqual([{ text: 'HI', times: 2, shouted: true }]);
+  });
+  
+  it('should reject invalid rewrites and name the plugin that made them', async () => {
+    const later = new ArgsRewritingPlugin('later', args => args);
+    await setup({
+      plugins: [
+        { plugin: new ArgsRewritingPlugin('broken', args => ({ ...args, times: 'twice' })), config: { priority: 20 } },
+        { plugin: later, config: { priority: 10 } }
+      ]
+    });
+    
+    const result = await client.callTool({ name: 'repeat', arguments: { text: 'hi' } });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain(
+      "Invalid arguments for tool 'repeat' from plugin 'broken': times: Expected number, received string"
+    );
+    expect(result._meta).toEqual({ code: 'INVALID_TOOL_ARGUMENTS', statusCode: 400 });
+    expect(later.schemas).toHaveLength(0);
+    expect(toolArgs).toHaveLength(0);
+  });
+  
+  it('should reject invalid rewrites whatever the plugin makes of its errors', async () => {
+    const later = new ArgsRewritingPlugin('later', args => args);
+    await setup({
+      plugins: [
+        { plugin: new LenientArgsRewritingPlugin('broken', args => ({ ...args, times: 'twice' })), config: { priority: 20 } },
+        { plugin: later, config: { priority: 10 } }
+      ]
+    });
+    
+    const result = await client.callTool({ name: 'repeat', arguments: { text: 'hi' } });
+    
+    expect(result._meta).toEqual({ code: 'INVALID_TOOL_ARGUMENTS', statusCode: 400 });
+    expect((result.content as any)[0].text).toContain("from plugin 'broken'");
+    expect(later.schemas).toHaveLength(0);
+    expect(toolArgs).toHaveLength(0);
+  });
+  
+  it('should reject invalid rewrites from the user hook', async () => {
+    await setup({
+      hooks: {
+        beforeToolCall: async context => {
+          delete context.args.text;
+        }
+      }
+    });
+    
+    const result = await client.callTool({ name: 'repeat', arguments: { text: 'hi' } });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain(
+      "Invalid arguments for tool 'repeat' from the beforeToolCall hook: text: Required"
+    );
+    expect(toolArgs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @file Tool List Hook Tests
+ *
+ * Tests that tools/list passes through the plugins' and user's list hooks
+ * with the caller's identity, so tools can be hidden, described or renamed
+ * per caller, and that calls to a renamed tool reach the tool behind it,
+ * using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyHooks, ToolCallContext, ToolListResult } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext, ProxyPlugin, ToolListPluginContext } from '../interfaces/plugin.js';
+
+/**
+ * Lists each tenant's tools under the tenant's prefix, and the premium
+ * tool only to the 'acme' tenant
+ */
+class TenantCatalogPlugin extends BasePlugin {
+  name = 'tenant-catalog-plugin';
+  version = '1.0.0';
+  
+  public calledAs: (string | undefined)[] = [];
+  
+  async afterListTools(context: ToolListPluginContext, result: ToolListResult): Promise<ToolListResult> {
+    const tenant = context.request?.authInfo?.clientId;
+    if (!tenant) return result;
+    
+    const aliases: Record<string, string> = {};
+    const tools = result.result.tools
+      .filter(tool => tenant === 'acme' || !context.toolTags[tool.name]?.includes('premium'))
+      .map(tool => {
+        aliases[`${tenant}_${tool.name}`] = tool.name;
+        return { ...tool, name: `${tenant}_${tool.name}` };
+      });
+    
+    return { result: { ...result.result, tools }, aliases: { ...result.aliases, ...aliases } };
+  }
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.calledAs.push(context.calledAs);
+  }
+}
+
+class CatalogCachePlugin extends BasePlugin {
+  name = 'catalog-cache-plugin';
+  version = '1.0.0';
+  
+  async beforeListTools(): Promise<ToolListResult> {
+    return { result: { tools: [{ name: 'cached', inputSchema: { type: 'object' } }] } };
+  }
+}
+
+const acme: AuthInfo = { token: 't1', clientId: 'acme', scopes: [] };
+const globex: AuthInfo = { token: 't2', clientId: 'globex', scopes: [] };
+
+describe('Tool List Hooks', () => {
+  let server: McpServer;
+  let client: Client;
+  
+  async function setup(options: { plugins?: ProxyPlugin[]; hooks?: ProxyHooks }, authInfo?: AuthInfo): Promise<void> {
+    const proxiedServer = await wrapWithProxy(server, {
+      ...options,
+      toolTags: { forecast: ['premium'] }
+    });
+    
+    proxiedServer.tool('search', 'Search the catalogue', { query: z.string() }, async args => ({
+      content: [{ type: 'text', text: `results for ${args.query}` }]
+    }));
+    proxiedServer.tool('forecast', 'Forecast demand', async () => ({
+      content: [{ type: 'text', text: 'forecast' }]
+    }));
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    if (authInfo) {
+      // Stand in for a transport that authenticated the client
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+    }
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await client.close();
+  });
+  
+  it('should list tools per caller', async () => {
+    await setup({ plugins: [new TenantCatalogPlugin()] }, globex);
+    
+    const { tools } = await client.listTools();
+    
+    expect(tools.map(tool => tool.name)).toEqual(['globex_search']);
+  });
+  
+  it('should route calls to an alias to the tool behind it', async () => {
+    const plugin = new TenantCatalogPlugin();
+    await setup({ plugins: [plugin] }, acme);
+    
+    const aliased = await client.callTool({ name: 'acme_search', arguments: { query: 'mcp' } });
+    const direct = await client.callTool({ name: 'forecast' });
+    
+    expect((aliased.content as any)[0].text).toBe('results for mcp');
+    expect((direct.content as any)[0].text).toBe('forecast');
+    expect(plugin.calledAs).toEqual(['acme_search', undefined]);
+  });
+  
+  it('should not resolve aliases listed to other callers', async () => {
+    await setup({ plugins: [new TenantCatalogPlugin()] }, globex);
+    
+    await expect(client.callTool({ name: 'acme_search', arguments: { query: 'mcp' } }))
+      .rejects.toThrow('Tool acme_search not found');
+  });
+  
+  it('should run user list hooks after plugin before hooks and before plugin after hooks', async () => {
+    const order: string[] = [];
+    await setup({
+      plugins: [new TenantCatalogPlugin()],
+      hooks: {
+        beforeListTools: async context => {
+          order.push(`before:${context.request?.authInfo?.clientId}`);
+        },
+        afterListTools: async (_context, result) => {
+          order.push(`after:${result.result.tools.map(tool => tool.name).join(',')}`);
+          return {
+            ...result,
+            result: {
+              ...result.result,
+              tools: result.result.tools.map(tool => ({ ...tool, description: `${tool.description} (free)` }))
+            }
+          };
+        }
+      }
+    }, acme);
+    
+    const { tools } = await client.listTools();
+    
+    expect(order).toEqual(['before:acme', 'after:search,forecast']);
+    expect(tools.map(tool => [tool.name, tool.description])).toEqual([
+      ['acme_search', 'Search the catalogue (free)'],
+      ['acme_forecast', 'Forecast demand (free)']
+    ]);
+  });
+  
+  it('should send the listing of a short-circuiting beforeListTools hook', async () => {
+    let listedByServer = false;
+    await setup({
+      plugins: [new CatalogCachePlugin()],
+      hooks: {
+        afterListTools: async (_context, result) => {
+          listedByServer = true;
+          return result;
+        }
+      }
+    });
+    
+    const { tools } = await client.listTools();
+    
+    expect(tools.map(tool => tool.name)).toEqual(['cached']);
+    expect(listedByServer).toBe(false);
+  });
+  
+  it('should run user list hooks without plugins', async () => {
+    const contexts: ToolCallContext[] = [];
+    await setup({
+      hooks: {
+        afterListTools: async (_context, result) => ({
+          result: { tools: result.result.tools.map(tool => ({ ...tool, name: `v2_${tool.name}` })) },
+          aliases: { v2_search: 'search', v2_forecast: 'forecast' }
+        }),
+        beforeToolCall: async context => {
+          contexts.push(context);
+        }
+      }
+    });
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'v2_forecast' });
+    
+    expect(tools.map(tool => tool.name)).toEqual(['v2_search', 'v2_forecast']);
+    expect((result.content as any)[0].text).toBe('forecast');
+    expect(contexts[0]).toMatchObject({ toolName: 'forecast', calledAs: 'v2_forecast' });
+  });
+});
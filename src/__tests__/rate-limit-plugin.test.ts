@@ -0,0 +1,194 @@
+/**
+ * @file Rate Limit Plugin Tests
+ *
+ * Tests token-bucket, sliding-window and concurrency limits keyed on
+ * sessions, metadata and tools, with retryAfter on rejected calls and quota
+ * details on allowed ones, using real MCP Client-Server communication.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { wrapWithProxy } from '../proxy-wrapper.js';
+import { ProxyPlugin, BasePlugin, PluginContext } from '../interfaces/plugin.js';
+import { ProxiedMcpServer, ToolCallResult } from '../interfaces/proxy-hooks.js';
+import { RateLimitPlugin, RateLimitRule, TokenBucketLimiter, SlidingWindowLimiter } from '../plugins/rate-limit/index.js';
+
+class TenantPlugin extends BasePlugin {
+  name = 'tenant-plugin';
+  version = '1.0.0';
+  config = { priority: 200 };
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    context.metadata = { ...context.metadata, tenant: context.args.tenant };
+  }
+}
+
+class ShortCircuitPlugin extends BasePlugin {
+  name = 'short-circuit-plugin';
+  version = '1.0.0';
+  config = { priority: 10 };
+  
+  async beforeToolCall(): Promise<ToolCallResult> {
+    return { result: { content: [{ type: 'text', text: 'from cache' }] } };
+  }
+}
+
+describe('Rate Limit Plugin', () => {
+  let server: McpServer;
+  let client: Client;
+  let plugin: RateLimitPlugin;
+  let releaseSlow: () => void;
+  
+  async function setup(limits: RateLimitRule[], plugins: ProxyPlugin[] = []): Promise<ProxiedMcpServer> {
+    plugin = new RateLimitPlugin({ limits });
+    const proxiedServer = await wrapWithProxy(server, { plugins: [plugin, ...plugins] });
+    
+    proxiedServer.tool('search', { tenant: z.string().optional() }, async () => ({
+      content: [{ type: 'text', text: 'results' }]
+    }));
+    
+    proxiedServer.tool('export', async () => ({
+      content: [{ type: 'text', text: 'exported' }]
+    }));
+    
+    proxiedServer.tool('slow', async () => {
+      await new Promise<void>(resolve => { releaseSlow = resolve; });
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxiedServer.connect(serverTransport);
+    await client.connect(clientTransport);
+    return proxiedServer;
+  }
+  
+  beforeEach(() => {
+    server = new McpServer({ name: 'Test Server', version: '1.0.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+  });
+  
+  afterEach(async () => {
+    await plugin.destroy();
+    await client.close();
+  });
+  
+  it('should reject calls beyond a sliding window with retryAfter', async () => {
+    await setup([{ strategy: 'sliding-window', windowMs: 60000, maxRequests: 2 }]);
+    
+    const first = await client.callTool({ name: 'search', arguments: {} });
+    const second = await client.callTool({ name: 'export' });
+    const third = await client.callTool({ name: 'search', arguments: {} });
+    
+    expect(first._meta?.rateLimit).toEqual({ 'sliding-window': { limit: 2, remaining: 1, reset: 60 } });
+    expect(second.isError).toBeUndefined();
+    expect(third.isError).toBe(true);
+    expect((third.content as any)[0].text).toContain("Rate limit 'sliding-window' exceeded for tool 'search'");
+    expect(third._meta).toMatchObject({
+      code: 'RATE_LIMITED',
+      statusCode: 429,
+      retryAfter: 60,
+      rateLimit: { 'sliding-window': { limit: 2, remaining: 0 } }
+    });
+    expect((await plugin.getStats()).customMetrics).toEqual({ allowed: 2, limited: 1 });
+  });
+  
+  it('should refill token buckets over time', async () => {
+    await setup([{ strategy: 'token-bucket', capacity: 1, refillPerSecond: 50 }]);
+    
+    await client.callTool({ name: 'export' });
+    const limited = await client.callTool({ name: 'export' });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const refilled = await client.callTool({ name: 'export' });
+    
+    expect(limited._meta?.code).toBe('RATE_LIMITED');
+    expect(refilled.isError).toBeUndefined();
+  });
+  
+  it('should hold concurrency slots until the call ends, however it ends', async () => {
+    await setup([{ strategy: 'concurrency', maxConcurrent: 1, tools: ['slow'] }]);
+    
+    const running = client.callTool({ name: 'slow' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const rejected = await client.callTool({ name: 'slow' });
+    const unlimited = await client.callTool({ name: 'export' });
+    releaseSlow();
+    await running;
+    
+    expect(rejected._meta?.code).toBe('RATE_LIMITED');
+    expect(rejected._meta?.retryAfter).toBeUndefined();
+    expect(unlimited._meta?.rateLimit).toBeUndefined();
+    
+    const next = client.callTool({ name: 'slow' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    releaseSlow();
+    expect((await next).isError).toBeUndefined();
+  });
+  
+  it('should release concurrency slots of calls that end while the plugin is disabled', async () => {
+    const proxiedServer = await setup([{ strategy: 'concurrency', maxConcurrent: 1, tools: ['slow'] }]);
+    
+    const running = client.callTool({ name: 'slow' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await proxiedServer.proxy.configurePlugin('rate-limit-plugin', { enabled: false });
+    releaseSlow();
+    await running;
+    await proxiedServer.proxy.configurePlugin('rate-limit-plugin', { enabled: true });
+    
+    const next = client.callTool({ name: 'slow' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    releaseSlow();
+    expect((await next).isError).toBeUndefined();
+  });
+  
+  it('should release concurrency slots of calls short-circuited by later plugins', async () => {
+    await setup([{ strategy: 'concurrency', maxConcurrent: 1 }], [new ShortCircuitPlugin()]);
+    
+    const first = await client.callTool({ name: 'export' });
+    const second = await client.callTool({ name: 'export' });
+    
+    expect((first.content as any)[0].text).toBe('from cache');
+    expect(second.isError).toBeUndefined();
+  });
+  
+  it('should keep separate budgets per metadata value and per tool', async () => {
+    await setup([
+      { name: 'per-tenant', strategy: 'sliding-window', windowMs: 60000, maxRequests: 1, key: { metadata: 'tenant' }, perTool: true }
+    ], [new TenantPlugin()]);
+    
+    const acme = await client.callTool({ name: 'search', arguments: { tenant: 'acme' } });
+    const globex = await client.callTool({ name: 'search', arguments: { tenant: 'globex' } });
+    const anonymousExport = await client.callTool({ name: 'export' });
+    const acmeAgain = await client.callTool({ name: 'search', arguments: { tenant: 'acme' } });
+    
+    expect(acme.isError).toBeUndefined();
+    expect(globex.isError).toBeUndefined();
+    expect(anonymousExport.isError).toBeUndefined();
+    expect(acmeAgain._meta?.code).toBe('RATE_LIMITED');
+  });
+});
+
+describe('Limiters', () => {
+  it('should report when a token bucket can serve the next call', () => {
+    const limiter = new TokenBucketLimiter(2, 1);
+    
+    expect(limiter.take('k', 0)).toMatchObject({ remaining: 1, resetMs: 1000 });
+    limiter.take('k', 0);
+    expect(limiter.check('k', 500)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 500 });
+    expect(limiter.check('k', 1000).allowed).toBe(true);
+  });
+  
+  it('should let calls leave a sliding window one by one', () => {
+    const limiter = new SlidingWindowLimiter(1000, 2);
+    
+    limiter.take('k', 0);
+    limiter.take('k', 400);
+    expect(limiter.check('k', 600)).toMatchObject({ allowed: false, retryAfterMs: 400 });
+    expect(limiter.check('k', 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    
+    limiter.cleanup(2000);
+    expect(limiter.check('k', 2000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
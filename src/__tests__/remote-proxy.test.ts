@@ -0,0 +1,269 @@
+/**
+ * @file Remote Proxy Tests
+ *
+ * Tests that an upstream server reached over a client transport is mirrored on
+ * a local proxied server, with hooks and plugins running on every forwarded
+ * call, using real MCP Client-Server communication on both sides.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, Progress } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { createRemoteProxy } from '../remote-proxy.js';
+import { ProxyWrapperOptions, ToolCallResult, RemoteProxiedMcpServer, UpstreamContext } from '../interfaces/proxy-hooks.js';
+import { BasePlugin, PluginContext } from '../interfaces/plugin.js';
+
+class TaggingPlugin extends BasePlugin {
+  name = 'tagging-plugin';
+  version = '1.0.0';
+  
+  public toolNames: string[] = [];
+  public upstreams: (UpstreamContext | undefined)[] = [];
+  
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    this.toolNames.push(context.toolName);
+    this.upstreams.push(context.upstream);
+    if (typeof context.args.text === 'string') {
+      context.args.text = context.args.text.toUpperCase();
+    }
+  }
+  
+  async afterToolCall(_context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    return { ...result, metadata: { ...result.metadata, tagged: true } };
+  }
+}
+
+class FailingPlugin extends BasePlugin {
+  name = 'failing-plugin';
+  version = '1.0.0';
+  
+  async initialize(): Promise<void> {
+    throw new Error('license check failed');
+  }
+}
+
+/**
+ * Wait for the mirrored tool list to change after an upstream notification
+ */
+async function waitForTools(client: Client, predicate: (names: string[]) => boolean): Promise<string[]> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const names = (await client.listTools()).tools.map(tool => tool.name);
+    if (predicate(names)) return names;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Mirrored tools did not change');
+}
+
+describe('Remote Proxy', () => {
+  let upstream: McpServer;
+  let proxy: RemoteProxiedMcpServer;
+  let client: Client;
+  
+  async function setup(options: ProxyWrapperOptions = {}): Promise<void> {
+    const [upstreamServerTransport, upstreamClientTransport] = InMemoryTransport.createLinkedPair();
+    await upstream.connect(upstreamServerTransport);
+    
+    proxy = await createRemoteProxy({ ...options, upstream: { transport: upstreamClientTransport } });
+    
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxy.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+  
+  beforeEach(() => {
+    upstream = new McpServer({ name: 'Upstream Server', version: '2.3.0' });
+    client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    
+    upstream.tool('echo', 'Echo the text back', { text: z.string().describe('Text to echo') }, async args => ({
+      content: [{ type: 'text', text: args.text }]
+    }));
+    
+    upstream.tool('slow-count', async extra => {
+      const progressToken = extra._meta?.progressToken;
+      if (progressToken !== undefined) {
+        for (const progress of [1, 2]) {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total: 2 }
+          });
+        }
+      }
+      return { content: [{ type: 'text', text: 'counted' }] };
+    });
+    
+    upstream.resource('readme', 'docs://readme', { mimeType: 'text/plain' }, async uri => ({
+      contents: [{ uri: uri.href, text: 'Read me' }]
+    }));
+    
+    upstream.resource('user', new ResourceTemplate('users://{id}', { list: undefined }), async (uri, variables) => ({
+      contents: [{ uri: uri.href, text: `User ${variables.id}` }]
+    }));
+    
+    upstream.prompt('greet', 'Greet someone', { name: z.string(), mood: z.string().optional() }, async args => ({
+      messages: [{ role: 'user', content: { type: 'text', text: `Hello ${args.name}` } }]
+    }));
+  });
+  
+  afterEach(async () => {
+    await proxy.proxy.shutdown({ timeout: 100 });
+    await client.close();
+  });
+  
+  it("should mirror the upstream's tools with their schemas and server info", async () => {
+    await setup();
+    
+    const { tools } = await client.listTools();
+    const echo = tools.find(tool => tool.name === 'echo')!;
+    
+    expect(tools.map(tool => tool.name)).toEqual(['echo', 'slow-count']);
+    expect(echo.description).toBe('Echo the text back');
+    expect(echo.inputSchema.properties).toEqual({ text: { type: 'string', description: 'Text to echo' } });
+    expect(echo.inputSchema.required).toEqual(['text']);
+    expect(client.getServerVersion()).toEqual({ name: 'Upstream Server', version: '2.3.0' });
+  });
+  
+  it('should run plugins on forwarded tool calls', async () => {
+    const plugin = new TaggingPlugin();
+    await setup({ plugins: [plugin] });
+    
+    const echo = await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    const count = await client.callTool({ name: 'slow-count' });
+    
+    expect((echo.content as any)[0].text).toBe('HI');
+    expect(echo._meta?.tagged).toBe(true);
+    expect((count.content as any)[0].text).toBe('counted');
+    expect(plugin.toolNames).toEqual(['echo', 'slow-count']);
+    expect(plugin.upstreams[0]).toEqual({ name: 'Upstream Server', toolName: 'echo' });
+  });
+  
+  it('should return upstream validation errors', async () => {
+    await setup();
+    
+    const result = await client.callTool({ name: 'echo', arguments: { text: 42 } });
+    
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('Invalid arguments for tool echo');
+  });
+  
+  it('should forward progress from the upstream', async () => {
+    await setup();
+    const updates: Progress[] = [];
+    
+    await client.callTool({ name: 'slow-count', arguments: {} }, CallToolResultSchema, {
+      onprogress: progress => { updates.push(progress); }
+    });
+    
+    expect(updates).toEqual([{ progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+  });
+  
+  it('should mirror resources, resource templates and prompts', async () => {
+    const resourceUris: string[] = [];
+    await setup({
+      hooks: {
+        beforeResourceRead: async context => { resourceUris.push(context.uri); }
+      }
+    });
+    
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const readme = await client.readResource({ uri: 'docs://readme' });
+    const user = await client.readResource({ uri: 'users://7' });
+    const { prompts } = await client.listPrompts();
+    const prompt = await client.getPrompt({ name: 'greet', arguments: { name: 'Ada' } });
+    
+    expect(resources).toEqual([{ uri: 'docs://readme', name: 'readme', mimeType: 'text/plain' }]);
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual(['users://{id}']);
+    expect((readme.contents[0] as any).text).toBe('Read me');
+    expect((user.contents[0] as any).text).toBe('User 7');
+    expect(resourceUris).toEqual(['docs://readme', 'users://7']);
+    expect(prompts[0].arguments).toEqual([
+      { name: 'name', required: true },
+      { name: 'mood', required: false }
+    ]);
+    expect((prompt.messages[0].content as any).text).toBe('Hello Ada');
+  });
+  
+  it("should follow the upstream's list changes", async () => {
+    await setup();
+    
+    const added = upstream.tool('added', async () => ({ content: [{ type: 'text', text: 'new' }] }));
+    expect(await waitForTools(client, names => names.includes('added'))).toEqual(['echo', 'slow-count', 'added']);
+    expect((await client.callTool({ name: 'added' }) as any).content[0].text).toBe('new');
+    
+    added.remove();
+    expect(await waitForTools(client, names => !names.includes('added'))).toEqual(['echo', 'slow-count']);
+  });
+  
+  it('should close the upstream connection on shutdown', async () => {
+    await setup();
+    let upstreamClosed = false;
+    upstream.server.onclose = () => { upstreamClosed = true; };
+    
+    await proxy.proxy.shutdown();
+    
+    expect(upstreamClosed).toBe(true);
+  });
+  
+  it('should mirror tools on SDK releases without registerTool', async () => {
+    const upstream = new McpServer({ name: 'Upstream Server', version: '2.3.0' });
+    upstream.tool('echo', 'Echo the text back', { text: z.string() }, { readOnlyHint: true }, async args => ({
+      content: [{ type: 'text', text: args.text }]
+    }));
+    const [upstreamServerTransport, upstreamClientTransport] = InMemoryTransport.createLinkedPair();
+    await upstream.connect(upstreamServerTransport);
+    const annotations: unknown[] = [];
+    
+    // Stand in for an SDK release that predates the config-object methods
+    const registerTool = McpServer.prototype.registerTool;
+    (McpServer.prototype as any).registerTool = undefined;
+    let proxy: RemoteProxiedMcpServer;
+    try {
+      proxy = await createRemoteProxy({
+        upstream: { transport: upstreamClientTransport },
+        hooks: {
+          beforeToolCall: async context => {
+            annotations.push(context.toolAnnotations);
+          }
+        }
+      });
+    } finally {
+      McpServer.prototype.registerTool = registerTool;
+    }
+    
+    const client = new Client({ name: 'Test Client', version: '1.0.0' }, { capabilities: {} });
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await proxy.connect(serverTransport);
+    await client.connect(clientTransport);
+    
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+    
+    expect(tools.map(tool => [tool.name, tool.description])).toEqual([['echo', 'Echo the text back']]);
+    expect((result.content as any)[0].text).toBe('hi');
+    expect(annotations).toEqual([{ readOnlyHint: true }]);
+    
+    await proxy.proxy.shutdown({ timeout: 100 });
+    await client.close();
+  });
+});
+
+describe('Remote Proxy Setup', () => {
+  it('should close the upstream connection when plugins fail to initialize', async () => {
+    const upstream = new McpServer({ name: 'Upstream Server', version: '2.3.0' });
+    upstream.tool('ping', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+    const [upstreamServerTransport, upstreamClientTransport] = InMemoryTransport.createLinkedPair();
+    await upstream.connect(upstreamServerTransport);
+    let upstreamClosed = false;
+    upstream.server.onclose = () => { upstreamClosed = true; };
+    
+    await expect(createRemoteProxy({
+      upstream: { transport: upstreamClientTransport },
+      plugins: [new FailingPlugin()]
+    })).rejects.toThrow('license check failed');
+    
+    expect(upstreamClosed).toBe(true);
+  });
+});
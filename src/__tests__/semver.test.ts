@@ -0,0 +1,71 @@
+/**
+ * @file Semver Tests
+ * @description Unit tests for the version parsing and range matching used by dependency checks
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { compareVersions, isValidRange, parseVersion, satisfies } from '../utils/semver.js';
+
+describe('Semver', () => {
+  it('should parse versions and ignore build metadata', () => {
+    expect(parseVersion('1.2.3-beta.1+build.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['beta', '1'] });
+    expect(parseVersion('v2.0.0')?.major).toBe(2);
+    expect(parseVersion('1.2')).toBeUndefined();
+  });
+  
+  it('should order versions by precedence', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0-alpha', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-alpha.2', '1.0.0-alpha.10')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-alpha.1', '1.0.0-beta')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-1', '1.0.0-alpha')).toBeLessThan(0);
+  });
+  
+  it('should match caret and tilde ranges', () => {
+    expect(satisfies('1.9.9', '^1.2.0')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfies('2.0.0-beta', '^1.2.0')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.3')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+    expect(satisfies('0.0.4', '^0.0.3')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.3')).toBe(false);
+  });
+  
+  it('should match comparisons, partial versions and wildcards', () => {
+    expect(satisfies('1.5.0', '>=1.2.0 <2.0.0')).toBe(true);
+    expect(satisfies('1.5.0', '>= 1.6')).toBe(false);
+    expect(satisfies('1.3.0', '>1.2')).toBe(true);
+    expect(satisfies('1.2.9', '>1.2')).toBe(false);
+    expect(satisfies('1.2.9', '<=1.2')).toBe(true);
+    expect(satisfies('1.2.7', '1.2.x')).toBe(true);
+    expect(satisfies('1.3.0', '1.2')).toBe(false);
+    expect(satisfies('7.0.0', '*')).toBe(true);
+    expect(satisfies('1.2.3', '=1.2.3')).toBe(true);
+  });
+  
+  it('should match hyphen spans and alternatives', () => {
+    expect(satisfies('1.5.0', '1.2.0 - 1.5')).toBe(true);
+    expect(satisfies('1.6.0', '1.2.0 - 1.5')).toBe(false);
+    expect(satisfies('2.1.0', '^1.0.0 || ^2.0.0')).toBe(true);
+    expect(satisfies('3.0.0', '^1.0.0 || ^2.0.0')).toBe(false);
+  });
+  
+  it('should only match prereleases against comparators on the same release', () => {
+    expect(satisfies('1.5.0-beta', '^1.0.0')).toBe(false);
+    expect(satisfies('1.5.0-beta', '>=1.0.0 <2.0.0')).toBe(false);
+    expect(satisfies('1.5.0-beta', '*')).toBe(false);
+    expect(satisfies('1.5.0-beta', '>=1.5.0-alpha <2.0.0')).toBe(true);
+    expect(satisfies('1.5.0-beta.2', '^1.5.0-beta.1')).toBe(true);
+    expect(satisfies('1.6.0-beta', '^1.5.0-beta.1')).toBe(false);
+    expect(satisfies('1.5.0-beta', '1.5.0-beta')).toBe(true);
+    expect(satisfies('1.5.0-beta', '^2.0.0 || >=1.5.0-alpha')).toBe(true);
+  });
+  
+  it('should reject invalid ranges and never match invalid versions', () => {
+    expect(isValidRange('^1.2.0')).toBe(true);
+    expect(isValidRange('>=one')).toBe(false);
+    expect(() => satisfies('1.0.0', 'latest')).toThrow('Invalid version range: latest');
+    expect(satisfies('not-a-version', '*')).toBe(false);
+  });
+});
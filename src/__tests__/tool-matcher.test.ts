@@ -0,0 +1,67 @@
+/**
+ * @file Tool Matcher Tests
+ * @description Unit tests for the includeTools/excludeTools selector matching
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isToolSelected, matchesToolSelector, tagsFromAnnotations } from '../utils/tool-matcher.js';
+import { BasePlugin } from '../interfaces/plugin.js';
+
+class FilteredPlugin extends BasePlugin {
+  name = 'filtered-plugin';
+  version = '1.0.0';
+}
+
+describe('Tool Matcher', () => {
+  it('should match exact names', () => {
+    expect(matchesToolSelector('search', 'search')).toBe(true);
+    expect(matchesToolSelector('search', 'search-all')).toBe(false);
+  });
+  
+  it('should match globs across separators', () => {
+    expect(matchesToolSelector('github.*', 'github.create_issue')).toBe(true);
+    expect(matchesToolSelector('admin/*', 'admin/users/delete')).toBe(true);
+    expect(matchesToolSelector('db_read_?', 'db_read_1')).toBe(true);
+    expect(matchesToolSelector('db_read_?', 'db_read_10')).toBe(false);
+    expect(matchesToolSelector('github.*', 'githubXcreate')).toBe(false);
+  });
+  
+  it('should match regular expressions given as strings or RegExp objects', () => {
+    expect(matchesToolSelector('/^db_(read|list)_/i', 'DB_LIST_tables')).toBe(true);
+    expect(matchesToolSelector(/^db_read_/, 'db_write_users')).toBe(false);
+    
+    const global = /report/g;
+    expect(matchesToolSelector(global, 'weekly-report')).toBe(true);
+    expect(matchesToolSelector(global, 'weekly-report')).toBe(true);
+  });
+  
+  it('should match tags', () => {
+    expect(matchesToolSelector('tag:billing', 'charge', ['billing'])).toBe(true);
+    expect(matchesToolSelector('tag:billing', 'charge')).toBe(false);
+  });
+  
+  it('should let exclusions win and treat an empty include list as all tools', () => {
+    const filter = { includeTools: ['github.*'], excludeTools: ['github.delete_*'] };
+    
+    expect(isToolSelected(filter, 'github.create_issue')).toBe(true);
+    expect(isToolSelected(filter, 'github.delete_repo')).toBe(false);
+    expect(isToolSelected(filter, 'slack.post')).toBe(false);
+    expect(isToolSelected({ includeTools: [] }, 'anything')).toBe(true);
+  });
+  
+  it('should derive tags from tool annotations', () => {
+    expect(tagsFromAnnotations({ readOnlyHint: true, destructiveHint: false, tags: ['billing', 42] }))
+      .toEqual(['billing', 'readOnly']);
+    expect(tagsFromAnnotations(undefined)).toEqual([]);
+  });
+  
+  it('should apply the same rules in BasePlugin.shouldProcessTool', () => {
+    const plugin = new FilteredPlugin();
+    plugin.config = { includeTools: ['admin/*', 'tag:billing'], excludeTools: [/delete/] };
+    
+    expect(plugin.shouldProcessTool('admin/users')).toBe(true);
+    expect(plugin.shouldProcessTool('admin/delete')).toBe(false);
+    expect(plugin.shouldProcessTool('charge', ['billing'])).toBe(true);
+    expect(plugin.shouldProcessTool('search')).toBe(false);
+  });
+});
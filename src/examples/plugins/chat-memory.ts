@@ -6,6 +6,7 @@
 
 import { BasePlugin, PluginContext, PluginConfig } from '../../interfaces/plugin.js';
 import { ToolCallResult } from '../../interfaces/proxy-hooks.js';
+import { measureContent, textParts } from '../../utils/content-parts.js';
 
 /**
  * Stored conversation entry
@@ -165,7 +166,9 @@ export class ChatMemoryPlugin extends BasePlugin {
   metadata = {
     description: 'Saves tool responses to memory and provides chat interface for interacting with saved data',
     author: 'MCP Team',
-    tags: ['memory', 'chat', 'ai', 'database']
+    tags: ['memory', 'chat', 'ai', 'database'],
+    // Saved entries must only ever hold redacted data
+    optionalDependencies: ['redaction-plugin']
   };
 
   config: PluginConfig = {
@@ -191,6 +194,7 @@ export class ChatMemoryPlugin extends BasePlugin {
   // In-memory storage
   private conversationDb = new Map<string, ConversationEntry>();
   private chatSessions = new Map<string, ChatSession>();
+  private cleanupInterval?: NodeJS.Timeout;
   
   // Statistics
   private customStats = {
@@ -228,13 +232,13 @@ export class ChatMemoryPlugin extends BasePlugin {
     }
 
     try {
-      // Extract content from result
-      const content = this.extractContent(result);
-      
-      if (content.length === 0) {
+      // Skip results without text before building the stored copy
+      if (measureContent(result).textLength === 0) {
         return result;
       }
 
+      const content = this.extractContent(result);
+
       // Create conversation entry
       const now = Date.now();
       const entry: ConversationEntry = {
@@ -317,13 +321,12 @@ export class ChatMemoryPlugin extends BasePlugin {
     return true;
   }
 
+  /**
+   * Text of the result as one string. Entries keep the whole response so it
+   * can be searched and quoted later; non-text parts are not saved.
+   */
   private extractContent(result: ToolCallResult): string {
-    if (!result.result.content) return '';
-
-    return result.result.content
-      .filter((item: any) => item.type === 'text')
-      .map((item: any) => item.text)
-      .join('\n');
+    return Array.from(textParts(result)).join('\n');
   }
 
   private generateEntryId(): string {
@@ -368,7 +371,7 @@ export class ChatMemoryPlugin extends BasePlugin {
   }
 
   private startCleanupInterval(): void {
-    setInterval(() => {
+    this.cleanupInterval = setInterval(() => {
       this.cleanupSessions();
     }, 60 * 60 * 1000); // Run every hour
   }
@@ -624,6 +627,11 @@ export class ChatMemoryPlugin extends BasePlugin {
   async destroy(): Promise<void> {
     this.logger?.info('Chat Memory plugin shutting down');
     
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+    
     // Log final stats
     const stats = await this.getStats();
     this.logger?.info('Final plugin statistics:', stats.customMetrics);
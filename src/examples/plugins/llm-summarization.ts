@@ -5,6 +5,7 @@
 
 import { BasePlugin, PluginContext, PluginConfig } from '../../interfaces/plugin.js';
 import { ToolCallResult } from '../../interfaces/proxy-hooks.js';
+import { measureContent, textParts } from '../../utils/content-parts.js';
 
 /**
  * Stored result interface for saving original data
@@ -88,7 +89,9 @@ export class LLMSummarizationPlugin extends BasePlugin {
   metadata = {
     description: 'Intercepts tool results and returns AI-generated summaries',
     author: 'MCP Team',
-    tags: ['ai', 'summarization', 'llm']
+    tags: ['ai', 'summarization', 'llm'],
+    // Content reaches the LLM provider only after redaction
+    optionalDependencies: ['redaction-plugin']
   };
   
   config: PluginConfig = {
@@ -233,10 +236,9 @@ export class LLMSummarizationPlugin extends BasePlugin {
       return false;
     }
     
-    // Check content length threshold
-    const content = this.extractContent(result);
+    // Check content length threshold without joining the text
     const minLength = this.config.options?.minContentLength || 100;
-    if (content.length < minLength) {
+    if (measureContent(result).textLength < minLength) {
       return false;
     }
     
@@ -248,13 +250,13 @@ export class LLMSummarizationPlugin extends BasePlugin {
     return true;
   }
   
+  /**
+   * Text of the result as one string. The LLM needs the whole text in its
+   * prompt, so this is only built once shouldSummarize has measured the
+   * result; non-text parts are not summarized.
+   */
   private extractContent(result: ToolCallResult): string {
-    if (!result.result.content) return '';
-    
-    return result.result.content
-      .filter((item: any) => item.type === 'text')
-      .map((item: any) => item.text)
-      .join('\n');
+    return Array.from(textParts(result)).join('\n');
   }
   
   private async generateSummary(content: string, context: PluginContext): Promise<string> {
@@ -0,0 +1,57 @@
+/**
+ * @file Gateway
+ * @version 1.0.0
+ *
+ * Serves several MCP servers behind one proxied endpoint, so a single set of
+ * hooks and plugins (billing, auth, audit, ...) covers all of them. Each
+ * backend is mounted under a namespace: its tool `create_issue` mounted as
+ * `github` is served as `github__create_issue`. Calls are routed to the
+ * backend that owns the tool, and `context.upstream` tells plugins which one
+ * that is.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { createLogger } from './utils/logger.js';
+import { connectUpstream, createMirrorServer, MountedUpstream } from './remote-proxy.js';
+import { GatewayOptions, GatewayMcpServer } from './interfaces/proxy-hooks.js';
+
+/**
+ * Connect to every backend and serve them from one local, proxied McpServer.
+ * Backends are mounted in the order given; when two mirrored names collide,
+ * the backend mounted first keeps the name and the other gets a numbered suffix.
+ * @param options Backends to mount, plus the usual proxy wrapper options
+ * @returns The gateway server, not yet connected to a transport
+ */
+export async function createGateway(options: GatewayOptions): Promise<GatewayMcpServer> {
+  const logger = createLogger({
+    level: options.debug ? 'debug' : 'info',
+    prefix: 'MCP-GATEWAY'
+  });
+  const separator = options.separator ?? '__';
+  
+  const upstreams: MountedUpstream[] = [];
+  try {
+    for (const [name, upstream] of Object.entries(options.upstreams)) {
+      const client: Client = await connectUpstream(upstream);
+      const namespace = upstream.namespace ?? name;
+      upstreams.push({ name, client, prefix: namespace ? `${namespace}${separator}` : '' });
+      logger.info(`Connected to backend ${name}`, { server: client.getServerVersion()?.name });
+    }
+  } catch (error) {
+    await Promise.all(upstreams.map(upstream => upstream.client.close()));
+    throw error;
+  }
+  
+  // Closes the backends itself if the gateway cannot be created
+  const { server, handles } = await createMirrorServer(
+    options,
+    { name: options.name ?? 'mcp-gateway', version: options.version ?? '1.0.0' },
+    upstreams,
+    logger
+  );
+  
+  const gateway = server as GatewayMcpServer;
+  gateway.upstreams = Object.fromEntries(upstreams.map((upstream, index) => [upstream.name, handles[index]]));
+  
+  return gateway;
+}
@@ -19,13 +19,40 @@
 
 // Export the proxy wrapper
 export { wrapWithProxy } from './proxy-wrapper.js';
+export { createRemoteProxy } from './remote-proxy.js';
+export { createGateway } from './gateway.js';
 
 // Export hook interfaces
 export {
   ProxyHooks,
   ProxyWrapperOptions,
   ToolCallContext,
-  ToolCallResult
+  ToolCallResult,
+  ResourceReadContext,
+  ResourceReadResult,
+  PromptGetContext,
+  PromptGetResult,
+  ToolListContext,
+  ToolListResult,
+  ErrorMapping,
+  MappedError,
+  McpErrorShape,
+  StructuredContentPolicy,
+  McpRequestContext,
+  ProgressUpdate,
+  ProxiedMcpServer,
+  ProxyHandle,
+  ProxyStats,
+  ShutdownOptions,
+  RemovePluginOptions,
+  RemoteUpstream,
+  RemoteProxyOptions,
+  RemoteUpstreamHandle,
+  RemoteProxiedMcpServer,
+  UpstreamContext,
+  GatewayUpstream,
+  GatewayOptions,
+  GatewayMcpServer
 } from './interfaces/proxy-hooks.js';
 
 // Export plugin system
@@ -33,15 +60,89 @@ export {
   ProxyPlugin,
   BasePlugin,
   PluginContext,
+  PluginCallState,
+  ResourcePluginContext,
+  PromptPluginContext,
+  ToolListPluginContext,
   PluginConfig,
+  PluginConfigUpdate,
+  ToolSelector,
   PluginMetadata,
   PluginStats,
-  PluginManager
+  PluginManager,
+  PluginFailureMode,
+  CircuitBreakerConfig,
+  CircuitState,
+  PluginError,
+  PluginAbortError,
+  PluginWarning,
+  PluginTimeoutError,
+  PluginUnavailableError,
+  InvalidToolArgumentsError,
+  InvalidStructuredContentError,
+  PluginErrorInfo,
+  PluginErrorOptions,
+  PluginErrorSeverity,
+  PluginKind,
+  PluginTimeouts
 } from './interfaces/plugin.js';
 
+// Export content part helpers for result transforms
+export {
+  contentParts,
+  contentPartSize,
+  measureContent,
+  textParts,
+  transformContent,
+  ContentPart,
+  ContentPartType,
+  ContentPartInfo,
+  ContentPartReplacement,
+  ContentPartTransform,
+  ContentSize
+} from './utils/content-parts.js';
+export { validateToolArgs } from './utils/tool-args.js';
+
 // Export plugins
 export { LLMSummarizationPlugin } from './examples/plugins/llm-summarization.js';
 export { ChatMemoryPlugin } from './examples/plugins/chat-memory.js';
+export {
+  CachingPlugin,
+  CachingPluginConfig,
+  CacheKeyScope,
+  CacheEntry,
+  CacheStore,
+  MemoryCacheStore,
+  MemoryCacheStoreOptions,
+  SqliteCacheStore,
+  SqliteCacheStoreConfig
+} from './plugins/caching/index.js';
+export {
+  RateLimitPlugin,
+  RateLimitError,
+  RateLimitPluginConfig,
+  RateLimitRule,
+  RateLimitKey,
+  QuotaStatus
+} from './plugins/rate-limit/index.js';
+export {
+  AuthorizationPlugin,
+  AuthorizationError,
+  AuthorizationPluginConfig,
+  AuthorizationRule,
+  ArgumentCondition,
+  Principal,
+  PrincipalIdentity
+} from './plugins/authorization/index.js';
+export {
+  RedactionPlugin,
+  RedactionPluginConfig,
+  RedactionMode,
+  Detector,
+  BuiltInDetector,
+  TokenVault,
+  MemoryTokenVault
+} from './plugins/redaction/index.js';
 
 // Example usage is available in example-proxy-wrapper-usage.ts file
 
@@ -54,6 +155,7 @@ export { ChatMemoryPlugin } from './examples/plugins/chat-memory.js';
  * - Instance Wrapping: Accepts an instance of an existing MCP server
  * - Pre-call Hooks: Execute code before tool calls
  * - Post-call Hooks: Execute code after tool calls
+ * - Resource and Prompt Hooks: Intercept resource reads and prompt gets
  * - Argument Modification: Modify tool call arguments
  * - Result Modification: Modify tool call results
  * - Short-circuit Capability: Return custom results without calling the original tool
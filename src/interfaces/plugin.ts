@@ -6,7 +6,20 @@
  * with additional functionality like payments, authentication, caching, etc.
  */
 
-import { ToolCallContext, ToolCallResult } from './proxy-hooks.js';
+import {
+  ToolCallContext,
+  ToolCallResult,
+  ResourceReadContext,
+  ResourceReadResult,
+  PromptGetContext,
+  PromptGetResult,
+  ToolListContext,
+  ToolListResult,
+  ProgressUpdate,
+  ErrorMapping
+} from './proxy-hooks.js';
+import type { ZodIssue } from 'zod';
+import { isToolSelected } from '../utils/tool-matcher.js';
 
 /**
  * Plugin execution priority - higher numbers execute first
@@ -16,12 +29,27 @@ export type PluginPriority = number;
 /**
  * Plugin lifecycle phase
  */
-export type PluginPhase = 'initialize' | 'beforeToolCall' | 'afterToolCall' | 'onError' | 'destroy';
+export type PluginPhase =
+  | 'initialize'
+  | 'beforeToolCall'
+  | 'afterToolCall'
+  | 'beforeResourceRead'
+  | 'afterResourceRead'
+  | 'beforePromptGet'
+  | 'afterPromptGet'
+  | 'beforeListTools'
+  | 'afterListTools'
+  | 'onToolError'
+  | 'onToolCallEnd'
+  | 'onProgress'
+  | 'onError'
+  | 'destroy';
 
 /**
- * Plugin execution context with additional plugin-specific data
+ * Per-call plugin state, created once per request and shared by
+ * every hook phase of that request
  */
-export interface PluginContext extends ToolCallContext {
+export interface PluginCallState {
   /** Plugin-specific data that persists across hooks */
   pluginData: Map<string, any>;
   
@@ -31,18 +59,71 @@ export interface PluginContext extends ToolCallContext {
   /** Timestamp when the request started */
   startTime: number;
   
-  /** Previous plugin results (for plugin chaining) */
+  /** Output of each plugin that has already run for this call, keyed by plugin name */
   previousResults?: Map<string, any>;
+  
+  /**
+   * Send a progress notification for this call to the client, through the
+   * plugins' onProgress hooks. Does nothing when the client did not ask for progress.
+   */
+  reportProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+  
+  /**
+   * Aborted when the call is cancelled: by the client, or because a plugin
+   * error or timeout ended it. Hooks and tools should stop work once it fires.
+   * Inside a hook it is that hook invocation's own signal, which is also
+   * aborted when the hook times out.
+   */
+  signal?: AbortSignal;
 }
 
+/**
+ * Plugin execution context with additional plugin-specific data
+ */
+export interface PluginContext extends ToolCallContext, PluginCallState {}
+
+/**
+ * Plugin execution context for resource reads
+ */
+export interface ResourcePluginContext extends ResourceReadContext, PluginCallState {}
+
+/**
+ * Plugin execution context for prompt gets
+ */
+export interface PromptPluginContext extends PromptGetContext, PluginCallState {}
+
+/**
+ * Plugin execution context for tools/list requests
+ */
+export interface ToolListPluginContext extends ToolListContext, PluginCallState {}
+
+/**
+ * How a plugin error affects the call in progress:
+ * - 'abort': stop the call and return the error to the client
+ * - 'skip-plugin': the plugin malfunctioned; skip it for this call and continue
+ * - 'warn': log the error and continue as if the hook had succeeded
+ */
+export type PluginErrorSeverity = 'abort' | 'skip-plugin' | 'warn';
+
+/**
+ * How a plugin's after hooks are scheduled:
+ * - 'transformer': run in sequence and may change the result
+ * - 'observer': read-only; run concurrently with other observers once the
+ *   transformers are done, off the response path, and their return value is ignored
+ */
+export type PluginKind = 'transformer' | 'observer';
+
 /**
  * Plugin error information
  */
-export interface PluginError {
+export interface PluginErrorInfo {
   pluginName: string;
   phase: PluginPhase;
   error: Error;
-  context: PluginContext;
+  context: PluginContext | ResourcePluginContext | PromptPluginContext | ToolListPluginContext;
+  
+  /** Severity the manager assigned to this error */
+  severity?: PluginErrorSeverity;
 }
 
 /**
@@ -58,19 +139,48 @@ export interface PluginMetadata {
   /** Plugin homepage or repository */
   homepage?: string;
   
-  /** Required dependencies (other plugins) */
+  /**
+   * Required dependencies (other plugins), by name with an optional version
+   * range, e.g. 'auth' or 'auth@^1.2.0'. Dependencies run their hooks first.
+   */
   dependencies?: string[];
   
-  /** Optional dependencies */
+  /** Optional dependencies; same form, checked and ordered only when loaded */
   optionalDependencies?: string[];
   
   /** Plugin tags for categorization */
   tags?: string[];
   
-  /** Minimum required proxy wrapper version */
+  /** Minimum required proxy wrapper version, e.g. '1.2.0', or a range such as '^1.2.0' */
   minWrapperVersion?: string;
 }
 
+/**
+ * Circuit breaker state for a plugin
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * How the proxy treats a call when a plugin fails or its circuit is open.
+ * 'fail-open' skips the plugin and lets the call continue;
+ * 'fail-closed' blocks the call, for plugins that enforce auth or billing.
+ */
+export type PluginFailureMode = 'fail-open' | 'fail-closed';
+
+/**
+ * Circuit breaker configuration for a plugin
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens (default: 5) */
+  failureThreshold?: number;
+  
+  /** Milliseconds an open circuit waits before allowing probe calls (default: 30000) */
+  resetTimeout?: number;
+  
+  /** Probe calls allowed while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+}
+
 /**
  * Plugin configuration interface
  */
@@ -85,15 +195,41 @@ export interface PluginConfig {
   options?: Record<string, any>;
   
   /** Tools this plugin should apply to (empty = all tools) */
-  includeTools?: string[];
+  includeTools?: ToolSelector[];
   
   /** Tools this plugin should NOT apply to */
-  excludeTools?: string[];
+  excludeTools?: ToolSelector[];
   
   /** Enable debug logging for this plugin */
   debug?: boolean;
+  
+  /** Whether calls continue (fail-open) or are blocked (fail-closed) when this plugin fails */
+  failureMode?: PluginFailureMode;
+  
+  /** Circuit breaker settings for this plugin */
+  circuitBreaker?: CircuitBreakerConfig;
+  
+  /** Hook timeouts for this plugin; unset phases use the wrapper's defaultTimeout */
+  timeouts?: PluginTimeouts;
 }
 
+/**
+ * Hook timeouts in milliseconds by phase, with 'default' for phases not listed,
+ * e.g. { default: 5000, afterToolCall: 30000 }
+ */
+export type PluginTimeouts = Partial<Record<PluginPhase | 'default', number>>;
+
+/**
+ * Selects tools for includeTools/excludeTools: an exact name, a glob such as
+ * 'github.*', a regular expression (RegExp or '/pattern/flags'), or 'tag:name'
+ */
+export type ToolSelector = string | RegExp;
+
+/**
+ * Configuration that can be changed while the plugin is running
+ */
+export type PluginConfigUpdate = Omit<PluginConfig, 'circuitBreaker'>;
+
 /**
  * Core plugin interface that all plugins must implement
  */
@@ -110,6 +246,15 @@ export interface ProxyPlugin {
   /** Plugin configuration */
   config?: PluginConfig;
   
+  /** Mappings that turn this plugin's error types into client-facing MCP errors */
+  readonly errorMappings?: ErrorMapping[];
+  
+  /**
+   * How the after hooks are scheduled (default: 'transformer'). Before hooks
+   * always run in sequence, so an observer can still record state there.
+   */
+  readonly kind?: PluginKind;
+  
   /**
    * Initialize the plugin
    * Called once when the proxy wrapper starts
@@ -129,10 +274,84 @@ export interface ProxyPlugin {
   afterToolCall?(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult>;
   
   /**
-   * Hook executed when errors occur
-   * Can handle errors or perform error recovery
+   * Hook executed before resource reads
+   * Can modify context or short-circuit execution
+   */
+  beforeResourceRead?(context: ResourcePluginContext): Promise<void | ResourceReadResult>;
+  
+  /**
+   * Hook executed after resource reads
+   * Can modify results or perform cleanup
+   */
+  afterResourceRead?(context: ResourcePluginContext, result: ResourceReadResult): Promise<ResourceReadResult>;
+  
+  /**
+   * Hook executed before prompt gets
+   * Can modify context or short-circuit execution
+   */
+  beforePromptGet?(context: PromptPluginContext): Promise<void | PromptGetResult>;
+  
+  /**
+   * Hook executed after prompt gets
+   * Can modify results or perform cleanup
+   */
+  afterPromptGet?(context: PromptPluginContext, result: PromptGetResult): Promise<PromptGetResult>;
+  
+  /**
+   * Hook executed before the server lists its tools
+   * Can prepare per-caller state for afterListTools or short-circuit with a listing
    */
-  onError?(error: PluginError): Promise<void | ToolCallResult>;
+  beforeListTools?(context: ToolListPluginContext): Promise<void | ToolListResult>;
+  
+  /**
+   * Hook executed after the server lists its tools
+   * Can drop tools from the listing or rewrite them, e.g. per caller; tools
+   * renamed or aliased must be recorded in the result's aliases
+   */
+  afterListTools?(context: ToolListPluginContext, result: ToolListResult): Promise<ToolListResult>;
+  
+  /**
+   * Hook executed when the wrapped tool handler throws
+   * Return a result to recover the call (fallback, cached answer, friendly message);
+   * the first plugin in execution order that returns one wins
+   */
+  onToolError?(error: Error, context: PluginContext): Promise<void | ToolCallResult>;
+  
+  /**
+   * Hook executed once a tool call is over, however it ended: with a result,
+   * a short-circuit, an error or a cancellation. Meant for releasing per-call
+   * resources such as concurrency slots; failures are logged and do not affect the call.
+   */
+  onToolCallEnd?(context: PluginContext): Promise<void>;
+  
+  /**
+   * Hook executed for each progress notification of a call, whether the
+   * wrapped handler or a plugin reported it. Return an update to rewrite it,
+   * e.g. to scale the tool's progress around stages of the plugin's own.
+   */
+  onProgress?(
+    context: PluginContext | ResourcePluginContext | PromptPluginContext,
+    update: ProgressUpdate
+  ): Promise<void | ProgressUpdate>;
+  
+  /**
+   * Hook executed when one of this plugin's own hooks fails
+   * Returning a result during beforeToolCall short-circuits the call with it;
+   * during afterToolCall it replaces the current result
+   */
+  onError?(error: PluginErrorInfo): Promise<void | ToolCallResult>;
+  
+  /**
+   * Declare how an error thrown by this plugin's hooks affects the call
+   * Return undefined to fall back to the error's own severity (PluginError)
+   * or the plugin's failure mode
+   */
+  classifyError?(error: Error, phase: PluginPhase): PluginErrorSeverity | undefined;
+  
+  /**
+   * Called with the changed settings when the plugin is reconfigured at runtime
+   */
+  updateConfig?(config: PluginConfigUpdate): void;
   
   /**
    * Cleanup hook called when proxy wrapper shuts down
@@ -231,8 +450,14 @@ export interface PluginEvents {
   /** Emitted when a plugin is unregistered */
   'plugin:unregistered': { pluginName: string };
   
+  /** Emitted when a plugin's configuration is changed at runtime */
+  'plugin:configured': { pluginName: string; config: PluginConfig };
+  
   /** Emitted when a plugin encounters an error */
-  'plugin:error': PluginError;
+  'plugin:error': PluginErrorInfo;
+  
+  /** Emitted when a plugin's circuit breaker changes state */
+  'plugin:circuit': { pluginName: string; state: CircuitState };
   
   /** Emitted when all plugins are initialized */
   'plugins:initialized': { plugins: ProxyPlugin[] };
@@ -258,6 +483,142 @@ export interface PluginRegistration {
 export type PluginHook<T = void> = (context: PluginContext) => Promise<T>;
 export type PluginFactory<TOptions = any> = (options: TOptions) => ProxyPlugin;
 
+/**
+ * Options for constructing a plugin error
+ */
+export interface PluginErrorOptions {
+  /** How the error affects the call (default: 'skip-plugin') */
+  severity?: PluginErrorSeverity;
+  
+  /** Machine-readable error code */
+  code?: string;
+  
+  /** HTTP-style status code, when one applies */
+  statusCode?: number;
+  
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors thrown from plugin hooks with an explicit severity
+ */
+export class PluginError extends Error {
+  severity: PluginErrorSeverity;
+  code: string;
+  statusCode?: number;
+  
+  constructor(message: string, options: PluginErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'PluginError';
+    this.severity = options.severity ?? 'skip-plugin';
+    this.code = options.code ?? 'PLUGIN_ERROR';
+    this.statusCode = options.statusCode;
+  }
+}
+
+/**
+ * Error that blocks the call, e.g. a failed authorization or payment check
+ */
+export class PluginAbortError extends PluginError {
+  constructor(message: string, options: Omit<PluginErrorOptions, 'severity'> = {}) {
+    super(message, { code: 'PLUGIN_ABORT', ...options, severity: 'abort' });
+    this.name = 'PluginAbortError';
+  }
+}
+
+/**
+ * Error that is only logged; the call continues unaffected
+ */
+export class PluginWarning extends PluginError {
+  constructor(message: string, options: Omit<PluginErrorOptions, 'severity'> = {}) {
+    super(message, { code: 'PLUGIN_WARNING', ...options, severity: 'warn' });
+    this.name = 'PluginWarning';
+  }
+}
+
+/**
+ * Error raised by the plugin manager when a fail-closed plugin's circuit is
+ * open, so the call cannot run until the plugin recovers
+ */
+export class PluginUnavailableError extends PluginError {
+  constructor(
+    public pluginName: string,
+    public retryAfter?: number
+  ) {
+    super(`Plugin ${pluginName} is unavailable (circuit open) and blocks calls while failing`, {
+      code: 'PLUGIN_UNAVAILABLE',
+      statusCode: 503,
+      severity: 'abort'
+    });
+    this.name = 'PluginUnavailableError';
+  }
+}
+
+/**
+ * Error raised by the plugin manager when a hook exceeds its timeout
+ */
+export class PluginTimeoutError extends PluginError {
+  constructor(message: string, options: Omit<PluginErrorOptions, 'severity'> = {}) {
+    super(message, { code: 'PLUGIN_TIMEOUT', ...options, severity: 'abort' });
+    this.name = 'PluginTimeoutError';
+  }
+}
+
+/**
+ * Error raised when the arguments left by a plugin or hook no longer
+ * match the tool's input schema
+ */
+export class InvalidToolArgumentsError extends PluginError {
+  toolName: string;
+  
+  /** Plugin that produced the arguments; unset when it was the user hook */
+  pluginName?: string;
+  
+  issues: ZodIssue[];
+  
+  constructor(toolName: string, issues: ZodIssue[], pluginName?: string) {
+    const source = pluginName ? `plugin '${pluginName}'` : 'the beforeToolCall hook';
+    super(`Invalid arguments for tool '${toolName}' from ${source}: ${describeIssues(issues)}`, {
+      code: 'INVALID_TOOL_ARGUMENTS',
+      statusCode: 400,
+      severity: 'abort'
+    });
+    this.name = 'InvalidToolArgumentsError';
+    this.toolName = toolName;
+    this.pluginName = pluginName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error raised when the structuredContent left by the after hooks does not
+ * match the tool's output schema and cannot be restored
+ */
+export class InvalidStructuredContentError extends PluginError {
+  toolName: string;
+  issues: ZodIssue[];
+  
+  constructor(toolName: string, issues: ZodIssue[]) {
+    super(`Structured content of tool '${toolName}' does not match its output schema: ${describeIssues(issues)}`, {
+      code: 'INVALID_STRUCTURED_CONTENT',
+      severity: 'abort'
+    });
+    this.name = 'InvalidStructuredContentError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * One line per schema issue, led by the path of the offending value
+ */
+function describeIssues(issues: ZodIssue[]): string {
+  return issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
 /**
  * Base class for easier plugin development
  */
@@ -301,20 +662,10 @@ export abstract class BasePlugin implements ProxyPlugin {
     this.stats.lastActivity = Date.now();
   }
   
-  public shouldProcessTool(toolName: string): boolean {
+  public shouldProcessTool(toolName: string, toolTags: readonly string[] = []): boolean {
     if (!this.config) return true;
     
-    // Check exclusions first
-    if (this.config.excludeTools?.includes(toolName)) {
-      return false;
-    }
-    
-    // Check inclusions (empty means include all)
-    if (this.config.includeTools && this.config.includeTools.length > 0) {
-      return this.config.includeTools.includes(toolName);
-    }
-    
-    return true;
+    return isToolSelected(this.config, toolName, toolTags);
   }
   
   public updateConfig(newConfig: PluginConfig): void {
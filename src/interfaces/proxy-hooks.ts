@@ -13,12 +13,82 @@
  * Functionality:
  * - Tool call context definition
  * - Tool call result definition
+ * - Resource read and prompt get context/result definitions
  * - Hook interfaces for pre and post processing
  * - Plugin system integration
  * - Configuration options
+ * - Proxy handle for shutdown and runtime inspection
+ * - Remote proxy options for upstream servers reached over stdio or HTTP
  */
 
-import type { ProxyPlugin, PluginConfig } from './plugin.js';
+import type { AnyZodObject } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ListToolsResult,
+  ProgressToken,
+  RequestId,
+  RequestMeta,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyPlugin, PluginConfig, PluginConfigUpdate, PluginStats } from './plugin.js';
+import type { DefaultPluginManager } from '../utils/plugin-manager.js';
+import type { ObserverQueueStats } from '../utils/observer-queue.js';
+
+/**
+ * A progress notification for a call, before it is sent to the client
+ */
+export interface ProgressUpdate {
+  /** Progress so far; must increase with every update sent for a call */
+  progress: number;
+  
+  /** Total progress required, if known */
+  total?: number;
+  
+  /** Description of the current stage */
+  message?: string;
+  
+  /** Whether the wrapped handler or a plugin reported it */
+  origin: 'tool' | 'plugin';
+}
+
+/**
+ * The MCP request behind a call, as the SDK passed it to the handler.
+ * It is kept apart from the call's arguments and is never sent to the tool as input.
+ */
+export interface McpRequestContext {
+  /** JSON-RPC ID of the request */
+  id?: RequestId;
+  
+  /** Transport session ID, when the transport has sessions */
+  sessionId?: string;
+  
+  /** Validated access token, when the transport authenticates requests */
+  authInfo?: AuthInfo;
+  
+  /** HTTP request details, from transports and SDK versions that provide them */
+  requestInfo?: { headers: Record<string, string | string[] | undefined> };
+  
+  /** The request's _meta as sent by the client */
+  meta?: RequestMeta;
+  
+  /** Token for progress notifications, when the client asked for progress */
+  progressToken?: ProgressToken;
+  
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  
+  /** Send a notification related to this request */
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+  
+  /** Send a request to the client related to this request */
+  sendRequest?: RequestHandlerExtra<ServerRequest, ServerNotification>['sendRequest'];
+}
 
 /**
  * Context for a tool call
@@ -30,10 +100,48 @@ export interface ToolCallContext {
   /** Arguments passed to the tool */
   args: Record<string, any>;
   
+  /** Tags of the tool, from the wrapper's tag map and the tool's annotations */
+  toolTags?: string[];
+  
+  /** Annotations the tool was registered with (readOnlyHint, idempotentHint, ...) */
+  toolAnnotations?: ToolAnnotations;
+  
+  /** Name the client called the tool by, when a list hook listed it under an alias */
+  calledAs?: string;
+  
+  /**
+   * Input schema the tool was registered with. Arguments are validated against
+   * it again after the before hooks run; unset for tools without arguments.
+   */
+  toolSchema?: AnyZodObject;
+  
+  /**
+   * Output schema the tool was registered with. The result's structuredContent
+   * is validated against it after the after hooks run.
+   */
+  outputSchema?: AnyZodObject;
+  
+  /** The MCP request being handled (session, auth, progress token, ...) */
+  request?: McpRequestContext;
+  
+  /** Upstream server the call is forwarded to, for tools mirrored by a remote proxy or gateway */
+  upstream?: UpstreamContext;
+  
   /** Additional metadata */
   metadata?: Record<string, any>;
 }
 
+/**
+ * The upstream server behind a mirrored tool
+ */
+export interface UpstreamContext {
+  /** Name of the upstream: its gateway mount name, or the server's own name for a remote proxy */
+  name: string;
+  
+  /** Name of the tool on the upstream server, before namespacing */
+  toolName: string;
+}
+
 /**
  * Result of a tool call
  */
@@ -45,6 +153,97 @@ export interface ToolCallResult {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Context for a tools/list request
+ */
+export interface ToolListContext {
+  /** Tags of each registered tool by name, as the tool's calls see them */
+  toolTags: Record<string, string[]>;
+  
+  /** Upstream server behind each mirrored tool by name, as the tool's calls see it */
+  upstreams?: Record<string, UpstreamContext>;
+  
+  /** The MCP request being handled (session, auth, ...) */
+  request?: McpRequestContext;
+  
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Result of a tools/list request
+ */
+export interface ToolListResult {
+  /** The listing sent to the client: its tools and, for paginated lists, nextCursor */
+  result: ListToolsResult;
+  
+  /**
+   * Names given to tools in the listing, mapped to the registered tool each
+   * one stands for. Calls to a name found here are routed to that tool; set
+   * it whenever a hook renames a tool or lists it under an extra name.
+   */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * Context for a resource read
+ */
+export interface ResourceReadContext {
+  /** Name the resource or resource template was registered under */
+  resourceName: string;
+  
+  /** URI being read */
+  uri: string;
+  
+  /** Variables extracted from the URI (template resources only) */
+  variables?: Record<string, string | string[]>;
+  
+  /** The MCP request being handled (session, auth, progress token, ...) */
+  request?: McpRequestContext;
+  
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Result of a resource read
+ */
+export interface ResourceReadResult {
+  /** Result returned by the resource read callback */
+  result: any;
+  
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Context for a prompt get
+ */
+export interface PromptGetContext {
+  /** Name of the prompt being requested */
+  promptName: string;
+  
+  /** Arguments passed to the prompt */
+  args: Record<string, any>;
+  
+  /** The MCP request being handled (session, auth, progress token, ...) */
+  request?: McpRequestContext;
+  
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Result of a prompt get
+ */
+export interface PromptGetResult {
+  /** Result returned by the prompt callback */
+  result: any;
+  
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
 /**
  * Hooks for the proxy wrapper
  */
@@ -63,6 +262,51 @@ export interface ProxyHooks {
    * @returns Modified result
    */
   afterToolCall?: (context: ToolCallContext, result: ToolCallResult) => Promise<ToolCallResult>;
+  
+  /**
+   * Hook that runs before a resource read
+   * @param context Context for the resource read
+   * @returns Void or a custom result to short-circuit the read
+   */
+  beforeResourceRead?: (context: ResourceReadContext) => Promise<void | ResourceReadResult>;
+  
+  /**
+   * Hook that runs after a resource read
+   * @param context Context for the resource read
+   * @param result Result of the resource read
+   * @returns Modified result
+   */
+  afterResourceRead?: (context: ResourceReadContext, result: ResourceReadResult) => Promise<ResourceReadResult>;
+  
+  /**
+   * Hook that runs before a prompt get
+   * @param context Context for the prompt get
+   * @returns Void or a custom result to short-circuit the prompt
+   */
+  beforePromptGet?: (context: PromptGetContext) => Promise<void | PromptGetResult>;
+  
+  /**
+   * Hook that runs after a prompt get
+   * @param context Context for the prompt get
+   * @param result Result of the prompt get
+   * @returns Modified result
+   */
+  afterPromptGet?: (context: PromptGetContext, result: PromptGetResult) => Promise<PromptGetResult>;
+  
+  /**
+   * Hook that runs before the server lists its tools
+   * @param context Context for the tools/list request
+   * @returns Void or a custom listing to send instead
+   */
+  beforeListTools?: (context: ToolListContext) => Promise<void | ToolListResult>;
+  
+  /**
+   * Hook that runs after the server lists its tools
+   * @param context Context for the tools/list request
+   * @param result The listing
+   * @returns Modified listing
+   */
+  afterListTools?: (context: ToolListContext, result: ToolListResult) => Promise<ToolListResult>;
 }
 
 /**
@@ -76,9 +320,64 @@ export interface PluginRegistration {
   config?: PluginConfig;
 }
 
+/**
+ * Handling of structuredContent that no longer matches the tool's output schema:
+ * 'restore' puts back the structuredContent the tool returned, keeping the
+ * rewritten content, and fails the call only if that is invalid too;
+ * 'error' always fails the call
+ */
+export type StructuredContentPolicy = 'restore' | 'error';
+
 /**
  * Options for the proxy wrapper
  */
+/**
+ * How an error reaches the client:
+ * - 'result': a tool result with isError set and error details in _meta
+ * - 'jsonrpc': a JSON-RPC error response
+ */
+export type McpErrorShape = 'result' | 'jsonrpc';
+
+/**
+ * Client-facing description of an error
+ */
+export interface MappedError {
+  /** Machine-readable error code, e.g. PAYMENT_REQUIRED */
+  code: string;
+  
+  /** Response shape; resource reads and prompt gets always use 'jsonrpc' */
+  shape?: McpErrorShape;
+  
+  /** Message shown to the client (default: the error's own message) */
+  message?: string;
+  
+  /** JSON-RPC error code used for the 'jsonrpc' shape (default: -32603) */
+  jsonRpcCode?: number;
+  
+  /** HTTP-style status code */
+  statusCode?: number;
+  
+  /** Seconds the client should wait before retrying */
+  retryAfter?: number;
+  
+  /** Where the client can upgrade or pay to lift the restriction */
+  upgradeUrl?: string;
+  
+  /** Additional structured details */
+  data?: Record<string, any>;
+}
+
+/**
+ * Maps errors of one type to a client-facing description
+ */
+export interface ErrorMapping {
+  /** Only errors that are instances of this class are offered to map() */
+  errorType?: abstract new (...args: any[]) => Error;
+  
+  /** Describe the error, or return undefined to leave it to later mappings */
+  map(error: Error): MappedError | undefined;
+}
+
 export interface ProxyWrapperOptions {
   /** Additional metadata to include with every tool call */
   metadata?: Record<string, any>;
@@ -108,5 +407,208 @@ export interface ProxyWrapperOptions {
     
     /** Health check interval in milliseconds */
     healthCheckInterval?: number;
+    
+    /** Observer hooks running at the same time (default: 4) */
+    observerConcurrency?: number;
+    
+    /** Observer hooks waiting to run before calls wait for room (default: 1000) */
+    observerQueueSize?: number;
   };
-} 
\ No newline at end of file
+  
+  /** Tags for tools by name, matched by 'tag:' selectors in includeTools/excludeTools */
+  toolTags?: Record<string, string[]>;
+  
+  /** Upstream server behind each tool, by tool name; filled in by createRemoteProxy and createGateway */
+  toolUpstreams?: Record<string, UpstreamContext>;
+  
+  /** Error mappings consulted before those registered by plugins */
+  errorMappings?: ErrorMapping[];
+  
+  /** Shape of tool call errors when a mapping does not choose one (default: 'result') */
+  toolErrorShape?: McpErrorShape;
+  
+  /**
+   * What to do when the after hooks leave structuredContent that does not match
+   * the tool's output schema (default: 'restore')
+   */
+  invalidStructuredContent?: StructuredContentPolicy;
+} 
+
+/**
+ * Options for shutting down a proxied server
+ */
+export interface ShutdownOptions {
+  /** How long to wait for in-flight calls before tearing down, in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Options for removing a plugin from a running proxy
+ */
+export interface RemovePluginOptions {
+  /** How long to wait for calls already using the plugin, in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Runtime statistics for a proxied server
+ */
+export interface ProxyStats {
+  /** Tool calls, resource reads and prompt gets currently being handled */
+  activeCalls: number;
+  
+  /** Calls handled since the server was wrapped */
+  totalCalls: number;
+  
+  /** Whether shutdown has started */
+  shuttingDown: boolean;
+  
+  /** Aggregated plugin statistics, when plugins are loaded */
+  plugins?: PluginStats;
+  
+  /** Observer hooks waiting and running, when plugins are loaded */
+  observers?: ObserverQueueStats;
+}
+
+/**
+ * Control handle attached to the server returned by wrapWithProxy
+ */
+export interface ProxyHandle {
+  /**
+   * Stop accepting calls, wait for in-flight calls up to the timeout,
+   * close the server and destroy plugins in reverse dependency order.
+   * Repeated calls return the same promise.
+   */
+  shutdown(options?: ShutdownOptions): Promise<void>;
+  
+  /** The plugin manager, or null while no plugins have been added */
+  getPluginManager(): DefaultPluginManager | null;
+  
+  /** Register a plugin on the running proxy and initialize it immediately */
+  addPlugin(plugin: ProxyPlugin, config?: PluginConfig): Promise<void>;
+  
+  /**
+   * Stop routing new calls to a plugin, wait for calls already in flight up
+   * to the timeout, then unregister and destroy it
+   */
+  removePlugin(pluginName: string, options?: RemovePluginOptions): Promise<void>;
+  
+  /** Atomically change a plugin's priority, tool filters, enabled flag or options */
+  configurePlugin(pluginName: string, changes: PluginConfigUpdate): Promise<void>;
+  
+  /** Run plugin health checks */
+  healthCheck(): Promise<Map<string, boolean>>;
+  
+  /** Current call counts and plugin statistics */
+  getStats(): Promise<ProxyStats>;
+}
+
+/**
+ * MCP server wrapped by wrapWithProxy
+ */
+export type ProxiedMcpServer = McpServer & {
+  /** Handle for shutting down and inspecting the proxy */
+  proxy: ProxyHandle;
+};
+
+/**
+ * Upstream MCP server for createRemoteProxy: a command started over stdio,
+ * a Streamable HTTP endpoint, or an already created client transport
+ */
+export type RemoteUpstream =
+  | {
+      /** Executable to run */
+      command: string;
+      
+      /** Command line arguments */
+      args?: string[];
+      
+      /** Environment for the process (default: a safe subset of the current one) */
+      env?: Record<string, string>;
+      
+      /** Working directory for the process */
+      cwd?: string;
+    }
+  | {
+      /** Streamable HTTP endpoint */
+      url: string | URL;
+      
+      /** Options applied to every HTTP request, e.g. authorization headers */
+      requestInit?: RequestInit;
+    }
+  | {
+      /** Transport connected to the upstream server */
+      transport: Transport;
+    };
+
+/**
+ * Backend of a gateway: an in-process server or an upstream reached as a client.
+ * Its tools and prompts are mounted under `namespace` (default: its key in
+ * the gateway's upstreams); an empty namespace mounts them unprefixed.
+ */
+export type GatewayUpstream = (RemoteUpstream | {
+  /** Server in this process */
+  server: McpServer;
+}) & {
+  namespace?: string;
+};
+
+/**
+ * Options for createGateway
+ */
+export interface GatewayOptions extends ProxyWrapperOptions {
+  /** Backends by name */
+  upstreams: Record<string, GatewayUpstream>;
+  
+  /** Placed between namespace and name, as in `github__create_issue` (default: '__') */
+  separator?: string;
+  
+  /** Name the gateway server reports (default: 'mcp-gateway') */
+  name?: string;
+  
+  /** Version the gateway server reports (default: '1.0.0') */
+  version?: string;
+}
+
+/**
+ * Options for createRemoteProxy
+ */
+export interface RemoteProxyOptions extends ProxyWrapperOptions {
+  /** The server to proxy */
+  upstream: RemoteUpstream;
+  
+  /** Name the local server reports (default: the upstream's) */
+  name?: string;
+  
+  /** Version the local server reports (default: the upstream's) */
+  version?: string;
+}
+
+/**
+ * Connection to the upstream server of a remote proxy
+ */
+export interface RemoteUpstreamHandle {
+  /** MCP client connected to the upstream server */
+  client: Client;
+  
+  /** Mirror the upstream's current tools, resources and prompts again */
+  refresh(): Promise<void>;
+}
+
+/**
+ * Local MCP server created by createGateway. Shutting it down through its
+ * proxy handle also closes the connections to every backend.
+ */
+export type GatewayMcpServer = ProxiedMcpServer & {
+  /** Connections to the backends, by name */
+  upstreams: Record<string, RemoteUpstreamHandle>;
+};
+
+/**
+ * Local MCP server created by createRemoteProxy. Shutting it down through
+ * its proxy handle also closes the upstream connection.
+ */
+export type RemoteProxiedMcpServer = ProxiedMcpServer & {
+  /** Connection to the upstream server */
+  upstream: RemoteUpstreamHandle;
+};
@@ -0,0 +1,17 @@
+/**
+ * @file Authorization Plugin - Main Export
+ * @version 1.0.0
+ * @description Main entry point for the authorization plugin
+ */
+
+export { AuthorizationPlugin, AuthorizationError } from './plugin.js';
+export type { AuthorizationPluginConfig } from './plugin.js';
+
+export { authorize } from './policy.js';
+export type {
+  AuthorizationRule,
+  AuthorizationDecision,
+  ArgumentCondition,
+  Principal,
+  PrincipalIdentity
+} from './policy.js';
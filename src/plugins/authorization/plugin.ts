@@ -0,0 +1,231 @@
+/**
+ * @file Authorization Plugin
+ * @version 1.0.0
+ * @description Role and scope based authorization for tool calls and tool listings
+ *
+ * The caller is identified from the request, in this order:
+ * - the transport's validated `authInfo` (OAuth client ID and scopes, roles from `extra.roles`)
+ * - a bearer token in the Authorization header, checked by `verifyToken`
+ * - an API key header, looked up in `apiKeys` or checked by `verifyApiKey`
+ *
+ * Calls the policy denies fail with an AuthorizationError (403, or 401 when
+ * no caller could be identified), and tools the caller cannot use are left
+ * out of tools/list. A verifier that throws fails the request with a 401,
+ * and the plugin is fail-closed, so its own failures block calls too.
+ */
+
+import {
+  BasePlugin,
+  PluginConfig,
+  PluginContext,
+  PluginError,
+  ToolListPluginContext
+} from '../../interfaces/plugin.js';
+import { ErrorMapping, McpRequestContext, ToolListResult } from '../../interfaces/proxy-hooks.js';
+import { authorize, AuthorizationRule, Principal, PrincipalIdentity } from './policy.js';
+
+/**
+ * Authorization plugin configuration
+ */
+export interface AuthorizationPluginConfig extends PluginConfig {
+  /** Rules every covered call must meet */
+  policy: AuthorizationRule[];
+
+  /** Decision for calls no rule covers (default: 'allow') */
+  defaultDecision?: 'allow' | 'deny';
+
+  /** Check a bearer token from the Authorization header */
+  verifyToken?: (token: string) => Promise<PrincipalIdentity | undefined>;
+
+  /** Known API keys and the callers they identify */
+  apiKeys?: Record<string, PrincipalIdentity>;
+
+  /** Check an API key not found in apiKeys */
+  verifyApiKey?: (apiKey: string) => Promise<PrincipalIdentity | undefined>;
+
+  /** Header carrying the API key (default: 'x-api-key') */
+  apiKeyHeader?: string;
+
+  /** Leave tools the caller cannot use out of tools/list (default: true) */
+  filterToolList?: boolean;
+}
+
+/**
+ * Raised when the policy denies a call
+ */
+export class AuthorizationError extends PluginError {
+  constructor(
+    message: string,
+    public toolName: string | undefined,
+    public requiredRoles?: string[],
+    public requiredScopes?: string[],
+    authenticated: boolean = true
+  ) {
+    super(message, {
+      code: authenticated ? 'FORBIDDEN' : 'UNAUTHENTICATED',
+      statusCode: authenticated ? 403 : 401,
+      severity: 'abort'
+    });
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * Authorization plugin for tool calls
+ */
+export class AuthorizationPlugin extends BasePlugin {
+  name = 'authorization-plugin';
+  version = '1.0.0';
+
+  metadata = {
+    description: 'Authorizes tool calls and listings against a role and scope policy',
+    author: 'MCP Team',
+    tags: ['auth', 'authorization', 'security']
+  };
+
+  readonly errorMappings: ErrorMapping[] = [
+    {
+      errorType: AuthorizationError,
+      map: error => {
+        const { code, statusCode, toolName, requiredRoles, requiredScopes } = error as AuthorizationError;
+        return { code, statusCode, data: { toolName, requiredRoles, requiredScopes } };
+      }
+    }
+  ];
+
+  declare public config: AuthorizationPluginConfig;
+
+  private customStats = {
+    allowed: 0,
+    denied: 0
+  };
+
+  constructor(config: AuthorizationPluginConfig) {
+    super();
+    this.config = {
+      enabled: true,
+      priority: 120, // Before rate limiting and billing, so denied calls use up nothing
+      failureMode: 'fail-closed',
+      ...config
+    };
+  }
+
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    const principal = await this.resolvePrincipal(context.request, context.toolName);
+    const decision = authorize(
+      this.config.policy,
+      this.config.defaultDecision ?? 'allow',
+      principal,
+      context.toolName,
+      context.toolTags ?? [],
+      context.args
+    );
+
+    if (!decision.allowed) {
+      this.customStats.denied++;
+      this.logger?.debug(`Denied ${context.toolName} to ${principal?.id ?? 'an anonymous caller'}`);
+      throw new AuthorizationError(
+        principal
+          ? `Not authorized to call tool '${context.toolName}'`
+          : `Authentication required to call tool '${context.toolName}'`,
+        context.toolName,
+        decision.rule?.roles,
+        decision.rule?.scopes,
+        principal !== undefined
+      );
+    }
+
+    this.customStats.allowed++;
+    // Later plugins can find the caller here
+    context.pluginData.set(this.name, principal);
+  }
+
+  async afterListTools(context: ToolListPluginContext, result: ToolListResult): Promise<ToolListResult> {
+    if (this.config.filterToolList === false) return result;
+
+    const principal = await this.resolvePrincipal(context.request);
+    const tools = result.result.tools.filter(tool => {
+      const name = result.aliases?.[tool.name] ?? tool.name;
+      return authorize(
+        this.config.policy,
+        this.config.defaultDecision ?? 'allow',
+        principal,
+        name,
+        context.toolTags[name] ?? []
+      ).allowed;
+    });
+
+    return { ...result, result: { ...result.result, tools } };
+  }
+
+  /**
+   * Identify the caller of a request, or return undefined for anonymous callers.
+   * Throws an AuthorizationError (401) when a verifier fails.
+   */
+  async resolvePrincipal(request?: McpRequestContext, toolName?: string): Promise<Principal | undefined> {
+    const authInfo = request?.authInfo;
+    if (authInfo) {
+      const roles = authInfo.extra?.roles;
+      return {
+        id: authInfo.clientId,
+        roles: Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [],
+        scopes: authInfo.scopes,
+        source: 'authInfo'
+      };
+    }
+
+    const authorization = header(request, 'authorization');
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (bearer && this.config.verifyToken) {
+      const identity = await this.verify(() => this.config.verifyToken!(bearer), 'bearer token', toolName);
+      if (identity) return principalFrom(identity, 'bearer');
+    }
+
+    const apiKey = header(request, this.config.apiKeyHeader ?? 'x-api-key');
+    if (apiKey) {
+      const identity = this.config.apiKeys?.[apiKey]
+        ?? (this.config.verifyApiKey && await this.verify(() => this.config.verifyApiKey!(apiKey), 'API key', toolName));
+      if (identity) return principalFrom(identity, 'apiKey');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run a credential verifier, turning its failures into a 401 rather than
+   * letting the call continue without a caller
+   */
+  private async verify(
+    verifier: () => Promise<PrincipalIdentity | undefined>,
+    credential: string,
+    toolName?: string
+  ): Promise<PrincipalIdentity | undefined> {
+    try {
+      return await verifier();
+    } catch (error) {
+      this.logger?.warn(`Could not verify the caller's ${credential}:`, error);
+      throw new AuthorizationError(`Could not verify the caller's ${credential}`, toolName, undefined, undefined, false);
+    }
+  }
+
+  async getStats() {
+    const baseStats = await super.getStats();
+
+    return {
+      ...baseStats,
+      customMetrics: { ...this.customStats }
+    };
+  }
+}
+
+function principalFrom(identity: PrincipalIdentity, source: Principal['source']): Principal {
+  return { id: identity.id, roles: identity.roles ?? [], scopes: identity.scopes ?? [], source };
+}
+
+/**
+ * First value of a request header; Node lower-cases header names
+ */
+function header(request: McpRequestContext | undefined, name: string): string | undefined {
+  const value = request?.requestInfo?.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
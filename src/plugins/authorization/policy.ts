@@ -0,0 +1,131 @@
+/**
+ * @file Authorization Policy
+ * @version 1.0.0
+ * @description Declarative rules mapping tools and their arguments to required roles or scopes
+ *
+ * A rule covers a call when one of its tool selectors matches the tool and
+ * every argument condition holds. Every rule covering a call must be met;
+ * calls no rule covers get the policy's default decision.
+ */
+
+import { ToolSelector } from '../../interfaces/plugin.js';
+import { isToolSelected } from '../../utils/tool-matcher.js';
+
+/**
+ * The caller a decision is made for
+ */
+export interface Principal {
+  /** Client, user or key ID */
+  id: string;
+
+  /** Roles granted to the caller */
+  roles: string[];
+
+  /** OAuth scopes granted to the caller */
+  scopes: string[];
+
+  /** How the caller was identified */
+  source: 'authInfo' | 'bearer' | 'apiKey';
+}
+
+/**
+ * A caller as described by a token or API key lookup
+ */
+export interface PrincipalIdentity {
+  id: string;
+  roles?: string[];
+  scopes?: string[];
+}
+
+/**
+ * Condition on one argument: an exact value, a pattern for string values,
+ * or a predicate
+ */
+export type ArgumentCondition =
+  | string
+  | number
+  | boolean
+  | null
+  | RegExp
+  | ((value: unknown, principal?: Principal) => boolean);
+
+/**
+ * One entry of an authorization policy
+ */
+export interface AuthorizationRule {
+  /** Tools the rule covers: names, globs, regular expressions or 'tag:' selectors */
+  tools: ToolSelector[];
+
+  /** Conditions on the call's arguments; the rule covers only calls meeting all of them */
+  args?: Record<string, ArgumentCondition>;
+
+  /** The caller needs at least one of these roles */
+  roles?: string[];
+
+  /** The caller needs every one of these scopes */
+  scopes?: string[];
+}
+
+/**
+ * Outcome of checking a call against a policy
+ */
+export type AuthorizationDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'unauthenticated' | 'forbidden'; rule?: AuthorizationRule };
+
+/**
+ * Check a call against the policy. Without args, only rules that have no
+ * argument conditions are checked, and conditional rules are assumed to
+ * allow the call; this answers whether any call to the tool could be allowed.
+ */
+export function authorize(
+  policy: AuthorizationRule[],
+  defaultDecision: 'allow' | 'deny',
+  principal: Principal | undefined,
+  toolName: string,
+  toolTags: readonly string[],
+  args?: Record<string, any>
+): AuthorizationDecision {
+  const covering = policy.filter(rule => isToolSelected({ includeTools: rule.tools }, toolName, toolTags));
+  const applicable = covering.filter(rule => args ? matchesArgs(rule, args, principal) : !rule.args);
+
+  for (const rule of applicable) {
+    if (!principal) {
+      return { allowed: false, reason: 'unauthenticated', rule };
+    }
+    if (!satisfies(rule, principal)) {
+      return { allowed: false, reason: 'forbidden', rule };
+    }
+  }
+
+  if (applicable.length > 0 || defaultDecision === 'allow') {
+    return { allowed: true };
+  }
+
+  // Conditional rules might cover some calls when listing
+  if (!args && principal && covering.some(rule => rule.args && satisfies(rule, principal))) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, reason: principal ? 'forbidden' : 'unauthenticated' };
+}
+
+function satisfies(rule: AuthorizationRule, principal: Principal): boolean {
+  const hasRole = !rule.roles || rule.roles.length === 0 || rule.roles.some(role => principal.roles.includes(role));
+  const hasScopes = !rule.scopes || rule.scopes.every(scope => principal.scopes.includes(scope));
+  return hasRole && hasScopes;
+}
+
+function matchesArgs(rule: AuthorizationRule, args: Record<string, any>, principal?: Principal): boolean {
+  return Object.entries(rule.args ?? {}).every(([name, condition]) => {
+    const value = args[name];
+    if (typeof condition === 'function') return condition(value, principal);
+    if (condition instanceof RegExp) {
+      if (typeof value !== 'string') return false;
+      // Global and sticky expressions keep state between test() calls
+      condition.lastIndex = 0;
+      return condition.test(value);
+    }
+    return value === condition;
+  });
+}
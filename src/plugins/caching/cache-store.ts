@@ -0,0 +1,232 @@
+/**
+ * @file Cache Stores for the Caching Plugin
+ * @version 1.0.0
+ * @description Storage backends for cached tool results
+ *
+ * Two backends are provided:
+ * - MemoryCacheStore: an LRU map bounded by entry count and serialized size
+ * - SqliteCacheStore: a SQLite table, shared across restarts and processes
+ */
+
+/**
+ * A cached tool result
+ */
+export interface CacheEntry {
+  /** Tool the result belongs to */
+  toolName: string;
+
+  /** The tool's result, as returned to the client */
+  result: any;
+
+  /** When the result was stored (ms since epoch) */
+  storedAt: number;
+
+  /** When the result stops being served (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for the caching plugin. Stores drop or ignore expired
+ * entries themselves, so get() only ever returns live ones.
+ */
+export interface CacheStore {
+  /** Prepare the store (open connections, create tables) */
+  initialize?(): Promise<void>;
+
+  /** Look up a live entry */
+  get(key: string): Promise<CacheEntry | undefined>;
+
+  /** Store an entry, replacing any entry under the same key */
+  set(key: string, entry: CacheEntry): Promise<void>;
+
+  /** Remove one entry */
+  delete(key: string): Promise<void>;
+
+  /** Remove every entry, or only those of one tool */
+  clear(toolName?: string): Promise<void>;
+
+  /** Number of entries currently held, expired ones included until they are dropped */
+  size(): Promise<number>;
+
+  /** Release the store's resources */
+  close?(): Promise<void>;
+}
+
+/**
+ * Memory store bounds
+ */
+export interface MemoryCacheStoreOptions {
+  /** Most entries kept before the least recently used is evicted (default: 1000) */
+  maxEntries?: number;
+
+  /** Most bytes of serialized results kept before evicting (default: unbounded) */
+  maxSize?: number;
+}
+
+/**
+ * In-memory LRU store. A Map keeps insertion order, so entries are re-inserted
+ * on every hit and evicted from the front.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry; size: number }>();
+  private totalSize = 0;
+  private maxEntries: number;
+  private maxSize: number;
+
+  /** Entries evicted to stay within the bounds */
+  public evictions = 0;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxSize = options.maxSize ?? Infinity;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const stored = this.entries.get(key);
+    if (!stored) return undefined;
+
+    if (stored.entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(entry.result) ?? '');
+    if (size > this.maxSize) return;
+
+    this.remove(key);
+    this.entries.set(key, { entry, size });
+    this.totalSize += size;
+
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.remove(oldest);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async clear(toolName?: string): Promise<void> {
+    for (const [key, { entry }] of this.entries) {
+      if (toolName === undefined || entry.toolName === toolName) {
+        this.remove(key);
+      }
+    }
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  private remove(key: string): void {
+    const stored = this.entries.get(key);
+    if (stored) {
+      this.totalSize -= stored.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * SQLite store configuration
+ */
+export interface SqliteCacheStoreConfig {
+  /** Database file, or ':memory:' */
+  connectionString: string;
+
+  /** Prefix of the cache table's name (default: 'mcp_cache_') */
+  tablePrefix?: string;
+}
+
+/**
+ * SQLite store on better-sqlite3, the driver the Stripe plugin's
+ * DatabaseManager uses. Expired rows are purged whenever an entry is stored.
+ */
+export class SqliteCacheStore implements CacheStore {
+  private config: SqliteCacheStoreConfig;
+  private connection: any;
+  private table: string;
+
+  constructor(config: SqliteCacheStoreConfig) {
+    this.config = config;
+    this.table = `${config.tablePrefix || 'mcp_cache_'}entries`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.connection) return;
+
+    const { default: Database } = await import('better-sqlite3');
+    this.connection = new Database(this.config.connectionString);
+    this.connection.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        tool_name TEXT NOT NULL,
+        result TEXT NOT NULL,
+        stored_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_${this.table}_expires_at ON ${this.table} (expires_at);
+      CREATE INDEX IF NOT EXISTS idx_${this.table}_tool_name ON ${this.table} (tool_name);
+    `);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const row = this.db().prepare(
+      `SELECT tool_name, result, stored_at, expires_at FROM ${this.table} WHERE key = ? AND expires_at > ?`
+    ).get(key, Date.now());
+
+    if (!row) return undefined;
+
+    return {
+      toolName: row.tool_name,
+      result: JSON.parse(row.result),
+      storedAt: row.stored_at,
+      expiresAt: row.expires_at
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const db = this.db();
+    db.prepare(`DELETE FROM ${this.table} WHERE expires_at <= ?`).run(Date.now());
+    db.prepare(`
+      INSERT OR REPLACE INTO ${this.table} (key, tool_name, result, stored_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(key, entry.toolName, JSON.stringify(entry.result), entry.storedAt, entry.expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db().prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  async clear(toolName?: string): Promise<void> {
+    if (toolName === undefined) {
+      this.db().prepare(`DELETE FROM ${this.table}`).run();
+    } else {
+      this.db().prepare(`DELETE FROM ${this.table} WHERE tool_name = ?`).run(toolName);
+    }
+  }
+
+  async size(): Promise<number> {
+    return this.db().prepare(`SELECT COUNT(*) AS count FROM ${this.table}`).get().count;
+  }
+
+  async close(): Promise<void> {
+    this.connection?.close();
+    this.connection = undefined;
+  }
+
+  private db(): any {
+    if (!this.connection) {
+      throw new Error('SqliteCacheStore used before initialize()');
+    }
+    return this.connection;
+  }
+}
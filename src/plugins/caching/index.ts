@@ -0,0 +1,16 @@
+/**
+ * @file Caching Plugin - Main Export
+ * @version 1.0.0
+ * @description Main entry point for the caching plugin
+ */
+
+export { CachingPlugin, cacheKey, canonicalJson } from './plugin.js';
+export type { CacheKeyScope, CachingPluginConfig } from './plugin.js';
+
+export { MemoryCacheStore, SqliteCacheStore } from './cache-store.js';
+export type {
+  CacheEntry,
+  CacheStore,
+  MemoryCacheStoreOptions,
+  SqliteCacheStoreConfig
+} from './cache-store.js';
@@ -0,0 +1,251 @@
+/**
+ * @file Caching Plugin
+ * @version 1.0.0
+ * @description Serves repeated tool calls from a cache instead of calling the tool again
+ *
+ * Results are keyed on the tool name and a hash of the canonical JSON of its
+ * arguments, so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` share an entry and the
+ * argument values never reach the store. With a `keyScope` the caller's
+ * session or client is hashed in too, so tools whose results depend on the
+ * caller don't serve one caller's result to another. A hit short-circuits
+ * the call in beforeToolCall; a miss is stored in afterToolCall. Error results
+ * and tools annotated with `idempotentHint: false` are never cached.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { BasePlugin, PluginConfig, PluginContext, PluginInitContext } from '../../interfaces/plugin.js';
+import { ToolCallResult } from '../../interfaces/proxy-hooks.js';
+import { CacheStore, MemoryCacheStore } from './cache-store.js';
+
+/**
+ * Which calls share cached results:
+ * - 'none': every caller with the same arguments
+ * - 'session': calls of one transport session
+ * - 'auth': calls of one authenticated client (authInfo.clientId)
+ * - a function returning the scope, e.g. a tenant id
+ * Calls for which no scope can be found share the 'anonymous' scope.
+ */
+export type CacheKeyScope =
+  | 'none'
+  | 'session'
+  | 'auth'
+  | ((context: PluginContext) => string | undefined);
+
+/**
+ * Caching plugin configuration
+ */
+export interface CachingPluginConfig extends PluginConfig {
+  /** Where results are kept (default: a MemoryCacheStore bounded by maxEntries) */
+  store?: CacheStore;
+
+  /** How long results are served, in milliseconds (default: 60000) */
+  ttl?: number;
+
+  /** TTLs of individual tools by name; 0 turns caching off for a tool */
+  toolTtls?: Record<string, number>;
+
+  /** Bound of the default memory store (default: 1000 entries) */
+  maxEntries?: number;
+
+  /** Also cache tools annotated with `idempotentHint: false` (default: false) */
+  cacheNonIdempotent?: boolean;
+
+  /** Key for HMAC-SHA256 cache keys, so stored keys can't be matched against guessed arguments (default: plain SHA-256) */
+  keySecret?: string;
+
+  /** Which calls share cached results (default: 'none'); set it for tools whose results depend on the caller */
+  keyScope?: CacheKeyScope;
+}
+
+/**
+ * Per-call state kept between the before and after hooks
+ */
+interface PendingEntry {
+  key: string;
+  ttl: number;
+}
+
+/**
+ * Caching plugin for tool results
+ */
+export class CachingPlugin extends BasePlugin {
+  name = 'caching-plugin';
+  version = '1.0.0';
+
+  metadata = {
+    description: 'Serves repeated tool calls with identical arguments from a cache',
+    author: 'MCP Team',
+    tags: ['cache', 'performance'],
+    // Store results as redacted; keys are hashes of the raw arguments, which redaction does not cover
+    optionalDependencies: ['redaction-plugin']
+  };
+
+  declare public config: CachingPluginConfig;
+  private store: CacheStore;
+
+  private customStats = {
+    hits: 0,
+    misses: 0,
+    stores: 0,
+    storeErrors: 0
+  };
+
+  constructor(config: CachingPluginConfig = {}) {
+    super();
+    this.config = {
+      enabled: true,
+      priority: 50, // After auth and billing plugins, so hits still pass their checks
+      ...config
+    };
+    this.store = config.store ?? new MemoryCacheStore({ maxEntries: config.maxEntries });
+  }
+
+  async initialize(context: PluginInitContext): Promise<void> {
+    await super.initialize(context);
+    await this.store.initialize?.();
+  }
+
+  async beforeToolCall(context: PluginContext): Promise<void | ToolCallResult> {
+    const ttl = this.ttlFor(context);
+    if (ttl <= 0) return;
+
+    const key = cacheKey(context.toolName, context.args, this.config.keySecret, this.scopeFor(context));
+    const entry = await this.lookup(key);
+
+    if (!entry) {
+      this.customStats.misses++;
+      context.pluginData.set(this.name, { key, ttl } satisfies PendingEntry);
+      return;
+    }
+
+    this.customStats.hits++;
+    this.logger?.debug(`Cache hit for ${context.toolName}`, { requestId: context.requestId });
+
+    // Short-circuited results skip the wrapper's metadata merge, so the markers go straight into _meta
+    return {
+      result: {
+        ...entry.result,
+        _meta: {
+          ...entry.result._meta,
+          cacheHit: true,
+          cachedAt: new Date(entry.storedAt).toISOString(),
+          cacheAge: Date.now() - entry.storedAt
+        }
+      }
+    };
+  }
+
+  async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    const pending: PendingEntry | undefined = context.pluginData.get(this.name);
+    if (!pending || result.result?.isError) return result;
+
+    const storedAt = Date.now();
+    try {
+      await this.store.set(pending.key, {
+        toolName: context.toolName,
+        result: structuredClone(result.result),
+        storedAt,
+        expiresAt: storedAt + pending.ttl
+      });
+      this.customStats.stores++;
+    } catch (error) {
+      this.customStats.storeErrors++;
+      this.logger?.warn(`Failed to cache the result of ${context.toolName}:`, error);
+    }
+
+    return {
+      ...result,
+      metadata: { ...result.metadata, cacheHit: false }
+    };
+  }
+
+  /**
+   * Drop cached results: all of them, or only those of one tool
+   */
+  async invalidate(toolName?: string): Promise<void> {
+    await this.store.clear(toolName);
+  }
+
+  async getStats() {
+    const baseStats = await super.getStats();
+
+    return {
+      ...baseStats,
+      customMetrics: {
+        ...this.customStats,
+        entries: await this.store.size()
+      }
+    };
+  }
+
+  async destroy(): Promise<void> {
+    await this.store.close?.();
+  }
+
+  /**
+   * TTL for this call, or 0 when the tool must not be cached
+   */
+  private ttlFor(context: PluginContext): number {
+    if (context.toolAnnotations?.idempotentHint === false && !this.config.cacheNonIdempotent) {
+      return 0;
+    }
+
+    return this.config.toolTtls?.[context.toolName] ?? this.config.ttl ?? 60000;
+  }
+
+  /**
+   * Caller part of this call's key, or undefined when results are shared
+   */
+  private scopeFor(context: PluginContext): string | undefined {
+    const scope = this.config.keyScope ?? 'none';
+    let value: string | undefined;
+
+    if (scope === 'none') {
+      return undefined;
+    } else if (typeof scope === 'function') {
+      value = scope(context);
+    } else if (scope === 'session') {
+      value = context.request?.sessionId;
+    } else {
+      value = context.request?.authInfo?.clientId;
+    }
+
+    return value ?? 'anonymous';
+  }
+
+  /**
+   * Read an entry, treating store failures as misses so the tool still runs
+   */
+  private async lookup(key: string) {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.customStats.storeErrors++;
+      this.logger?.warn('Cache lookup failed:', error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Cache key of a call: the tool name and the SHA-256 of its arguments as
+ * canonical JSON, together with the caller scope when one is given, keyed
+ * with HMAC when a secret is given
+ */
+export function cacheKey(toolName: string, args: Record<string, any>, secret?: string, scope?: string): string {
+  const hash = secret ? createHmac('sha256', secret) : createHash('sha256');
+  const hashed = scope === undefined ? args : [scope, args];
+  return `${toolName}:${hash.update(canonicalJson(hashed)).digest('hex')}`;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values serialize equally
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+    }
+    return nested;
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Rate Limit Plugin - Main Export
+ * @version 1.0.0
+ * @description Main entry point for the rate limit plugin
+ */
+
+export { RateLimitPlugin, RateLimitError } from './plugin.js';
+export type {
+  RateLimitPluginConfig,
+  RateLimitRule,
+  RateLimitKey,
+  TokenBucketRule,
+  SlidingWindowRule,
+  ConcurrencyRule
+} from './plugin.js';
+
+export { TokenBucketLimiter, SlidingWindowLimiter, ConcurrencyLimiter } from './limiters.js';
+export type { Limiter, QuotaStatus } from './limiters.js';
@@ -0,0 +1,184 @@
+/**
+ * @file Limiters for the Rate Limit Plugin
+ * @version 1.0.0
+ * @description In-memory rate limiting strategies, keyed by an arbitrary string
+ *
+ * Every limiter separates checking from taking, so the plugin can check all
+ * of a call's limits before it takes from any of them:
+ * - TokenBucketLimiter: bursts up to a capacity, refilled at a steady rate
+ * - SlidingWindowLimiter: at most N calls in any window of the given length
+ * - ConcurrencyLimiter: at most N calls in progress at once
+ */
+
+/**
+ * Where a key stands against one limit
+ */
+export interface QuotaStatus {
+  /** Whether one more call is allowed now */
+  allowed: boolean;
+
+  /** Size of the budget: bucket capacity, window size or concurrent calls */
+  limit: number;
+
+  /** Calls left in the budget, after taking this one when it is allowed */
+  remaining: number;
+
+  /** Milliseconds until the budget is whole again; unset for concurrency limits */
+  resetMs?: number;
+
+  /** Milliseconds until a denied call could succeed; unset when unknown */
+  retryAfterMs?: number;
+}
+
+/**
+ * A rate limiting strategy
+ */
+export interface Limiter {
+  /** Where the key stands, without taking anything */
+  check(key: string, now: number): QuotaStatus;
+
+  /** Take one call from the key's budget; only call after check() allowed it */
+  take(key: string, now: number): QuotaStatus;
+
+  /** Give back what take() held, for limiters whose budget is held for the call's duration */
+  release?(key: string): void;
+
+  /** Forget keys whose state no longer affects any decision */
+  cleanup(now: number): void;
+}
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled continuously at
+ * `refillPerSecond`; each call takes one token
+ */
+export class TokenBucketLimiter implements Limiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private capacity: number, private refillPerSecond: number) {}
+
+  check(key: string, now: number): QuotaStatus {
+    const tokens = this.tokensAt(key, now);
+    return this.status(tokens, tokens >= 1 ? tokens - 1 : tokens);
+  }
+
+  take(key: string, now: number): QuotaStatus {
+    const tokens = this.tokensAt(key, now) - 1;
+    this.buckets.set(key, { tokens, updatedAt: now });
+    return this.status(tokens + 1, tokens);
+  }
+
+  cleanup(now: number): void {
+    for (const key of this.buckets.keys()) {
+      if (this.tokensAt(key, now) >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private tokensAt(key: string, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return this.capacity;
+
+    const refilled = ((now - bucket.updatedAt) / 1000) * this.refillPerSecond;
+    return Math.min(this.capacity, bucket.tokens + refilled);
+  }
+
+  private status(before: number, after: number): QuotaStatus {
+    const allowed = before >= 1;
+    return {
+      allowed,
+      limit: this.capacity,
+      remaining: Math.max(0, Math.floor(after)),
+      resetMs: Math.ceil(((this.capacity - after) / this.refillPerSecond) * 1000),
+      retryAfterMs: allowed ? undefined : Math.ceil(((1 - before) / this.refillPerSecond) * 1000)
+    };
+  }
+}
+
+/**
+ * Sliding window log: at most `maxRequests` calls in any `windowMs` span
+ */
+export class SlidingWindowLimiter implements Limiter {
+  private windows = new Map<string, number[]>();
+
+  constructor(private windowMs: number, private maxRequests: number) {}
+
+  check(key: string, now: number): QuotaStatus {
+    const entries = this.entriesAt(key, now);
+    const allowed = entries.length < this.maxRequests;
+    return this.status(allowed, allowed ? [...entries, now] : entries, now);
+  }
+
+  take(key: string, now: number): QuotaStatus {
+    const entries = [...this.entriesAt(key, now), now];
+    this.windows.set(key, entries);
+    return this.status(true, entries, now);
+  }
+
+  cleanup(now: number): void {
+    for (const key of this.windows.keys()) {
+      if (this.entriesAt(key, now).length === 0) {
+        this.windows.delete(key);
+      }
+    }
+  }
+
+  private entriesAt(key: string, now: number): number[] {
+    const windowStart = now - this.windowMs;
+    return (this.windows.get(key) || []).filter(timestamp => timestamp > windowStart);
+  }
+
+  private status(allowed: boolean, entries: number[], now: number): QuotaStatus {
+    // The oldest call in the window is the next to leave it
+    const oldest = entries.length > 0 ? entries[0] : now;
+    return {
+      allowed,
+      limit: this.maxRequests,
+      remaining: Math.max(0, this.maxRequests - entries.length),
+      resetMs: entries.length > 0 ? entries[entries.length - 1] + this.windowMs - now : 0,
+      retryAfterMs: allowed ? undefined : oldest + this.windowMs - now
+    };
+  }
+}
+
+/**
+ * Concurrency semaphore: at most `maxConcurrent` calls hold a slot at once
+ */
+export class ConcurrencyLimiter implements Limiter {
+  private active = new Map<string, number>();
+
+  constructor(private maxConcurrent: number) {}
+
+  check(key: string): QuotaStatus {
+    const active = this.active.get(key) ?? 0;
+    const allowed = active < this.maxConcurrent;
+    return {
+      allowed,
+      limit: this.maxConcurrent,
+      remaining: Math.max(0, this.maxConcurrent - active - (allowed ? 1 : 0))
+    };
+  }
+
+  take(key: string): QuotaStatus {
+    const active = (this.active.get(key) ?? 0) + 1;
+    this.active.set(key, active);
+    return {
+      allowed: true,
+      limit: this.maxConcurrent,
+      remaining: Math.max(0, this.maxConcurrent - active)
+    };
+  }
+
+  release(key: string): void {
+    const active = (this.active.get(key) ?? 0) - 1;
+    if (active > 0) {
+      this.active.set(key, active);
+    } else {
+      this.active.delete(key);
+    }
+  }
+
+  cleanup(): void {
+    // Slots are freed on release, so there is nothing stale to drop
+  }
+}
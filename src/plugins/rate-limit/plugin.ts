@@ -0,0 +1,301 @@
+/**
+ * @file Rate Limit Plugin
+ * @version 1.0.0
+ * @description Per-client, per-tool and global rate limits and quotas for tool calls
+ *
+ * Each rule picks a strategy (token bucket, sliding window or concurrency
+ * semaphore) and a key saying which calls share a budget: all of them, those
+ * of one session, of one authenticated client, or of one metadata value.
+ * A call runs only when every rule that applies to it allows it; otherwise it
+ * fails with a RateLimitError carrying retryAfter. Allowed calls report where
+ * each budget stands in `_meta.rateLimit`.
+ */
+
+import {
+  BasePlugin,
+  PluginConfig,
+  PluginContext,
+  PluginError,
+  PluginInitContext,
+  ToolSelector
+} from '../../interfaces/plugin.js';
+import { ErrorMapping, ToolCallResult } from '../../interfaces/proxy-hooks.js';
+import { isToolSelected } from '../../utils/tool-matcher.js';
+import {
+  ConcurrencyLimiter,
+  Limiter,
+  QuotaStatus,
+  SlidingWindowLimiter,
+  TokenBucketLimiter
+} from './limiters.js';
+
+/**
+ * Which calls share a budget:
+ * - 'global': every call
+ * - 'session': calls of one transport session
+ * - 'auth': calls of one authenticated client (authInfo.clientId)
+ * - { metadata: field }: calls with the same value of a context.metadata field
+ * - a function returning the key
+ * Calls for which no key can be found share the 'anonymous' budget.
+ */
+export type RateLimitKey =
+  | 'global'
+  | 'session'
+  | 'auth'
+  | { metadata: string }
+  | ((context: PluginContext) => string | undefined);
+
+/**
+ * Settings shared by every rule
+ */
+interface RateLimitRuleBase {
+  /** Name reported in errors and `_meta.rateLimit` (default: the strategy); unique per plugin */
+  name?: string;
+
+  /** Which calls share a budget (default: 'session') */
+  key?: RateLimitKey;
+
+  /** Give every tool its own budget under the key (default: false) */
+  perTool?: boolean;
+
+  /** Tools the rule applies to (default: all tools) */
+  tools?: ToolSelector[];
+}
+
+/**
+ * Bursts of up to `capacity` calls, refilled at `refillPerSecond`
+ */
+export interface TokenBucketRule extends RateLimitRuleBase {
+  strategy: 'token-bucket';
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * At most `maxRequests` calls in any `windowMs` span
+ */
+export interface SlidingWindowRule extends RateLimitRuleBase {
+  strategy: 'sliding-window';
+  windowMs: number;
+  maxRequests: number;
+}
+
+/**
+ * At most `maxConcurrent` calls in progress at once
+ */
+export interface ConcurrencyRule extends RateLimitRuleBase {
+  strategy: 'concurrency';
+  maxConcurrent: number;
+}
+
+export type RateLimitRule = TokenBucketRule | SlidingWindowRule | ConcurrencyRule;
+
+/**
+ * Rate limit plugin configuration
+ */
+export interface RateLimitPluginConfig extends PluginConfig {
+  /** Limits checked on every call; all that apply must allow it */
+  limits: RateLimitRule[];
+
+  /** How often idle keys are forgotten, in milliseconds (default: 60000) */
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * Raised when a call exceeds one of its limits
+ */
+export class RateLimitError extends PluginError {
+  constructor(
+    message: string,
+    public rule: string,
+    public quota: QuotaStatus,
+    /** Seconds until the call could succeed, when known */
+    public retryAfter?: number
+  ) {
+    super(message, { code: 'RATE_LIMITED', statusCode: 429, severity: 'abort' });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * A rule with its limiter
+ */
+interface ActiveRule {
+  name: string;
+  rule: RateLimitRule;
+  limiter: Limiter;
+}
+
+/**
+ * Slots held by a call, released when the call ends
+ */
+type HeldSlots = { limiter: Limiter; key: string }[];
+
+/**
+ * Rate limit plugin for tool calls
+ */
+export class RateLimitPlugin extends BasePlugin {
+  name = 'rate-limit-plugin';
+  version = '1.0.0';
+
+  metadata = {
+    description: 'Limits tool calls per client, per tool or globally',
+    author: 'MCP Team',
+    tags: ['rate-limit', 'quota', 'security']
+  };
+
+  readonly errorMappings: ErrorMapping[] = [
+    {
+      errorType: RateLimitError,
+      map: error => {
+        const { rule, quota, retryAfter } = error as RateLimitError;
+        return {
+          code: 'RATE_LIMITED',
+          statusCode: 429,
+          retryAfter,
+          data: { rateLimit: { [rule]: quotaHeaders(quota) } }
+        };
+      }
+    }
+  ];
+
+  declare public config: RateLimitPluginConfig;
+  private rules: ActiveRule[];
+  private cleanupTimer?: NodeJS.Timeout;
+
+  private customStats = {
+    allowed: 0,
+    limited: 0
+  };
+
+  constructor(config: RateLimitPluginConfig) {
+    super();
+    this.config = {
+      enabled: true,
+      priority: 110, // Before billing, so rejected calls are never charged
+      ...config
+    };
+    this.rules = config.limits.map(rule => ({
+      name: rule.name ?? rule.strategy,
+      rule,
+      limiter: createLimiter(rule)
+    }));
+  }
+
+  async initialize(context: PluginInitContext): Promise<void> {
+    await super.initialize(context);
+
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      this.rules.forEach(({ limiter }) => limiter.cleanup(now));
+    }, this.config.cleanupIntervalMs ?? 60000);
+    this.cleanupTimer.unref();
+  }
+
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    const now = Date.now();
+    const applicable = this.rules
+      .filter(({ rule }) => !rule.tools || isToolSelected({ includeTools: rule.tools }, context.toolName, context.toolTags))
+      .map(active => ({ ...active, key: limitKey(active.rule, context) }));
+
+    // Check every limit before taking from any, so a denied call leaves no trace
+    for (const { name, limiter, key } of applicable) {
+      const status = limiter.check(key, now);
+      if (!status.allowed) {
+        this.customStats.limited++;
+        const retryAfter = status.retryAfterMs !== undefined ? Math.ceil(status.retryAfterMs / 1000) : undefined;
+        this.logger?.debug(`Rate limit '${name}' exceeded for ${context.toolName}`, { key, retryAfter });
+        throw new RateLimitError(`Rate limit '${name}' exceeded for tool '${context.toolName}'`, name, status, retryAfter);
+      }
+    }
+
+    const held: HeldSlots = [];
+    const quotas: Record<string, Record<string, number>> = {};
+    for (const { name, limiter, key } of applicable) {
+      quotas[name] = quotaHeaders(limiter.take(key, now));
+      if (limiter.release) {
+        held.push({ limiter, key });
+      }
+    }
+
+    this.customStats.allowed++;
+    context.pluginData.set(this.name, { held, quotas });
+  }
+
+  async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    const quotas = context.pluginData.get(this.name)?.quotas;
+    if (!quotas || Object.keys(quotas).length === 0) return result;
+
+    return {
+      ...result,
+      metadata: { ...result.metadata, rateLimit: quotas }
+    };
+  }
+
+  async onToolCallEnd(context: PluginContext): Promise<void> {
+    const held: HeldSlots | undefined = context.pluginData.get(this.name)?.held;
+    held?.forEach(({ limiter, key }) => limiter.release!(key));
+    context.pluginData.delete(this.name);
+  }
+
+  async getStats() {
+    const baseStats = await super.getStats();
+
+    return {
+      ...baseStats,
+      customMetrics: { ...this.customStats }
+    };
+  }
+
+  async destroy(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+  }
+}
+
+function createLimiter(rule: RateLimitRule): Limiter {
+  switch (rule.strategy) {
+    case 'token-bucket':
+      return new TokenBucketLimiter(rule.capacity, rule.refillPerSecond);
+    case 'sliding-window':
+      return new SlidingWindowLimiter(rule.windowMs, rule.maxRequests);
+    case 'concurrency':
+      return new ConcurrencyLimiter(rule.maxConcurrent);
+  }
+}
+
+/**
+ * The budget a call draws from under one rule
+ */
+function limitKey(rule: RateLimitRule, context: PluginContext): string {
+  const key = rule.key ?? 'session';
+  let value: string | undefined;
+
+  if (typeof key === 'function') {
+    value = key(context);
+  } else if (key === 'global') {
+    value = 'global';
+  } else if (key === 'session') {
+    value = context.request?.sessionId;
+  } else if (key === 'auth') {
+    value = context.request?.authInfo?.clientId;
+  } else {
+    const field = context.metadata?.[key.metadata];
+    value = field === undefined || field === null ? undefined : String(field);
+  }
+
+  value ??= 'anonymous';
+  return rule.perTool ? `${value}:${context.toolName}` : value;
+}
+
+/**
+ * Quota fields in the style of the RateLimit HTTP headers, reset in seconds
+ */
+function quotaHeaders(status: QuotaStatus): Record<string, number> {
+  const headers: Record<string, number> = { limit: status.limit, remaining: status.remaining };
+  if (status.resetMs !== undefined) {
+    headers.reset = Math.ceil(status.resetMs / 1000);
+  }
+  return headers;
+}
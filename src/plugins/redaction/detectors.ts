@@ -0,0 +1,148 @@
+/**
+ * @file Redaction Detectors
+ * @version 1.0.0
+ * @description Detectors for personal data and secrets in text
+ *
+ * Built-in detectors:
+ * - email: email addresses
+ * - phone: phone numbers of 9 to 15 digits written with separators or a country code
+ * - credit-card: 13 to 19 digit card numbers that pass the Luhn check
+ * - secret: API keys, tokens and private keys in well-known formats
+ * - high-entropy: long random-looking strings, such as keys in unknown formats
+ */
+
+/**
+ * Finds one kind of sensitive value in text
+ */
+export interface Detector {
+  /** Name used in stats and in redacted output, e.g. 'email' */
+  name: string;
+
+  /** Candidate matches; the global flag is added if missing */
+  pattern: RegExp;
+
+  /** Confirm a candidate, to rule out false positives */
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * A value found in text
+ */
+export interface DetectorMatch {
+  detector: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/**
+ * Names of the built-in detectors
+ */
+export type BuiltInDetector = 'email' | 'phone' | 'credit-card' | 'secret' | 'high-entropy';
+
+const SECRET_PATTERNS = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]+?-----END [A-Z ]*PRIVATE KEY-----/,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/,
+  /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}\b/,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/,
+  /\bsk-[A-Za-z0-9_-]{20,}\b/,
+  /\bAIza[0-9A-Za-z_-]{35}\b/,
+  /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/
+];
+
+/**
+ * The built-in detectors by name
+ */
+export const builtInDetectors: Record<BuiltInDetector, Detector> = {
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  phone: {
+    name: 'phone',
+    // Not part of a longer run of digit groups, such as a card number, IP address or version
+    pattern: /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}[ .-]\d{3,4}[ .-]?\d{3,4}(?!\w|[ .-]\d)/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15;
+    }
+  },
+  'credit-card': {
+    name: 'credit-card',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate: match => luhnValid(match.replace(/\D/g, ''))
+  },
+  secret: {
+    name: 'secret',
+    pattern: new RegExp(SECRET_PATTERNS.map(pattern => pattern.source).join('|'), 'g')
+  },
+  'high-entropy': {
+    name: 'high-entropy',
+    pattern: /(?<![A-Za-z0-9+/_=-])[A-Za-z0-9+/_=-]{24,}(?![A-Za-z0-9+/_=-])/g,
+    validate: match => /[0-9]/.test(match) && /[A-Za-z]/.test(match) && shannonEntropy(match) >= 4
+  }
+};
+
+/**
+ * Whether a digit string passes the Luhn checksum used by card numbers
+ */
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Every value the detectors find in the text, in order. Where matches
+ * overlap, the one starting first wins, then the longer one, then the one
+ * from the detector listed first.
+ */
+export function findMatches(text: string, detectors: readonly Detector[]): DetectorMatch[] {
+  const candidates: (DetectorMatch & { rank: number })[] = [];
+
+  detectors.forEach((detector, rank) => {
+    const pattern = detector.pattern.global ? detector.pattern : new RegExp(detector.pattern.source, `${detector.pattern.flags}g`);
+    for (const match of text.matchAll(pattern)) {
+      const value = match[0];
+      if (value.length === 0 || (detector.validate && !detector.validate(value))) continue;
+      candidates.push({ detector: detector.name, start: match.index!, end: match.index! + value.length, value, rank });
+    }
+  });
+
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.rank - b.rank);
+
+  const matches: DetectorMatch[] = [];
+  let covered = 0;
+  for (const { detector, start, end, value } of candidates) {
+    if (start < covered) continue;
+    matches.push({ detector, start, end, value });
+    covered = end;
+  }
+  return matches;
+}
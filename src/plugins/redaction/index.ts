@@ -0,0 +1,14 @@
+/**
+ * @file Redaction Plugin - Main Export
+ * @version 1.0.0
+ * @description Main entry point for the redaction plugin
+ */
+
+export { RedactionPlugin } from './plugin.js';
+export type { RedactionPluginConfig, RedactionMode } from './plugin.js';
+
+export { builtInDetectors, findMatches, luhnValid, shannonEntropy } from './detectors.js';
+export type { BuiltInDetector, Detector, DetectorMatch } from './detectors.js';
+
+export { MemoryTokenVault } from './token-vault.js';
+export type { TokenVault } from './token-vault.js';
@@ -0,0 +1,239 @@
+/**
+ * @file Redaction Plugin
+ * @version 1.0.0
+ * @description Scrubs personal data and secrets from tool arguments and results
+ *
+ * Strings in the call's arguments, the result's content and its structured
+ * content are scanned by the configured detectors, and each value found is
+ * replaced according to its mode:
+ * - mask: `[REDACTED:email]`
+ * - hash: `[email:<keyed hash>]`, the same for equal values
+ * - tokenize: `[email:tok_<id>]`, with the value kept in a token vault
+ *
+ * The tool still receives its arguments as sent. They are redacted once it
+ * has run, ahead of the after hooks of plugins that store or forward calls
+ * (billing, caching, chat memory, summarization). Tokens that authorized
+ * callers send back in arguments are restored before any other plugin's
+ * before hook, so authorization policies check the values the tool receives.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { BasePlugin, PluginConfig, PluginContext } from '../../interfaces/plugin.js';
+import { ToolCallResult } from '../../interfaces/proxy-hooks.js';
+import { transformContent } from '../../utils/content-parts.js';
+import { builtInDetectors, BuiltInDetector, Detector, DetectorMatch, findMatches } from './detectors.js';
+import { MemoryTokenVault, TokenVault } from './token-vault.js';
+
+/**
+ * How a value found by a detector is replaced
+ */
+export type RedactionMode = 'mask' | 'hash' | 'tokenize';
+
+/**
+ * Redaction plugin configuration
+ */
+export interface RedactionPluginConfig extends PluginConfig {
+  /** Built-in detectors to use (default: all of them) */
+  detectors?: BuiltInDetector[];
+
+  /** Custom detectors, which win over built-in ones matching the same text */
+  patterns?: Detector[];
+
+  /** How values are replaced (default: 'mask') */
+  mode?: RedactionMode;
+
+  /** Modes of individual detectors by name, overriding mode */
+  detectorModes?: Record<string, RedactionMode>;
+
+  /** Redact the call's arguments once the tool has run (default: true) */
+  redactArgs?: boolean;
+
+  /** Redact the result's content and structured content (default: true) */
+  redactResults?: boolean;
+
+  /** Key for hashes and token IDs; set it to keep them stable across restarts (default: random) */
+  secret?: string;
+
+  /** Where tokenized values are kept (default: a MemoryTokenVault) */
+  vault?: TokenVault;
+
+  /** Whether a caller's tokens are restored in its arguments (default: no caller's) */
+  canDetokenize?: (context: PluginContext) => boolean | Promise<boolean>;
+}
+
+const TOKEN_PATTERN = /\[[\w-]+:tok_[0-9a-f]{16}\]/g;
+
+/**
+ * Redaction plugin for tool arguments and results
+ */
+export class RedactionPlugin extends BasePlugin {
+  name = 'redaction-plugin';
+  version = '1.0.0';
+
+  metadata = {
+    description: 'Redacts personal data and secrets from tool arguments and results',
+    author: 'MCP Team',
+    tags: ['privacy', 'security', 'redaction']
+  };
+
+  declare public config: RedactionPluginConfig;
+  private detectors: Detector[];
+  private vault: TokenVault;
+  private key: string | Buffer;
+
+  private customStats = {
+    redacted: {} as Record<string, number>,
+    detokenized: 0
+  };
+
+  constructor(config: RedactionPluginConfig = {}) {
+    super();
+    this.config = {
+      enabled: true,
+      priority: 125, // Restores tokens before authorization checks the arguments
+      ...config
+    };
+
+    const builtIns = config.detectors ?? (Object.keys(builtInDetectors) as BuiltInDetector[]);
+    this.detectors = [...(config.patterns ?? []), ...builtIns.map(name => builtInDetectors[name])];
+    this.vault = config.vault ?? new MemoryTokenVault();
+    this.key = config.secret ?? randomBytes(32);
+  }
+
+  async beforeToolCall(context: PluginContext): Promise<void> {
+    if (this.config.canDetokenize && await this.config.canDetokenize(context)) {
+      context.args = await this.detokenize(context.args);
+    }
+  }
+
+  async afterToolCall(context: PluginContext, result: ToolCallResult): Promise<ToolCallResult> {
+    if (this.config.redactArgs !== false) {
+      context.args = await this.redact(context.args);
+    }
+    if (this.config.redactResults === false) {
+      return result;
+    }
+
+    const redacted = await transformContent(result, async part => {
+      if (part.type === 'text' && typeof part.text === 'string') {
+        const text = await this.redactText(part.text);
+        return text === part.text ? undefined : { ...part, text };
+      }
+      if (part.type === 'resource' && typeof part.resource?.text === 'string') {
+        const text = await this.redactText(part.resource.text);
+        return text === part.resource.text ? undefined : { ...part, resource: { ...part.resource, text } };
+      }
+      return undefined;
+    });
+
+    const structuredContent = redacted.result?.structuredContent;
+    if (structuredContent === undefined) {
+      return redacted;
+    }
+
+    const redactedStructuredContent = await this.redact(structuredContent);
+    return redactedStructuredContent === structuredContent
+      ? redacted
+      : { ...redacted, result: { ...redacted.result, structuredContent: redactedStructuredContent } };
+  }
+
+  /**
+   * Redact every string in a value, leaving object keys alone. Returns the
+   * value itself when nothing was found.
+   */
+  async redact<T>(value: T): Promise<T> {
+    return this.mapStrings(value, text => this.redactText(text));
+  }
+
+  /**
+   * Restore the tokenized values in a value. Tokens the vault no longer
+   * knows are left in place.
+   */
+  async detokenize<T>(value: T): Promise<T> {
+    return this.mapStrings(value, async text => {
+      let restored = text;
+      for (const token of new Set(text.match(TOKEN_PATTERN) ?? [])) {
+        const original = await this.vault.lookup(token);
+        if (original !== undefined) {
+          restored = restored.split(token).join(original);
+          this.customStats.detokenized++;
+        }
+      }
+      return restored;
+    });
+  }
+
+  async redactText(text: string): Promise<string> {
+    const matches = findMatches(text, this.detectors);
+    if (matches.length === 0) return text;
+
+    let redacted = '';
+    let position = 0;
+    for (const match of matches) {
+      redacted += text.slice(position, match.start) + await this.replace(match);
+      position = match.end;
+      this.customStats.redacted[match.detector] = (this.customStats.redacted[match.detector] ?? 0) + 1;
+    }
+    return redacted + text.slice(position);
+  }
+
+  async getStats() {
+    const baseStats = await super.getStats();
+
+    return {
+      ...baseStats,
+      customMetrics: {
+        redacted: Object.values(this.customStats.redacted).reduce((sum, count) => sum + count, 0),
+        detokenized: this.customStats.detokenized,
+        // Counts by detector, e.g. 'redacted.email'
+        ...Object.fromEntries(Object.entries(this.customStats.redacted)
+          .map(([detector, count]) => [`redacted.${detector}`, count]))
+      }
+    };
+  }
+
+  async destroy(): Promise<void> {
+    await this.vault.close?.();
+  }
+
+  private async replace({ detector, value }: DetectorMatch): Promise<string> {
+    switch (this.config.detectorModes?.[detector] ?? this.config.mode ?? 'mask') {
+      case 'hash':
+        return `[${detector}:${this.digest(`hash:${detector}`, value)}]`;
+
+      case 'tokenize': {
+        const token = `[${detector}:tok_${this.digest(`token:${detector}`, value)}]`;
+        await this.vault.store(token, value);
+        return token;
+      }
+
+      default:
+        return `[REDACTED:${detector}]`;
+    }
+  }
+
+  private digest(label: string, value: string): string {
+    return createHmac('sha256', this.key).update(`${label}\0${value}`).digest('hex').slice(0, 16);
+  }
+
+  private async mapStrings<T>(value: T, map: (text: string) => Promise<string>): Promise<T> {
+    if (typeof value === 'string') {
+      return await map(value) as T;
+    }
+
+    if (Array.isArray(value)) {
+      const items = await Promise.all(value.map(item => this.mapStrings(item, map)));
+      return items.some((item, i) => item !== value[i]) ? items as T : value;
+    }
+
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const entries = await Promise.all(Object.entries(value).map(
+        async ([key, item]) => [key, await this.mapStrings(item, map)] as const
+      ));
+      const changed = entries.some(([key, item]) => item !== (value as Record<string, unknown>)[key]);
+      return changed ? Object.fromEntries(entries) as T : value;
+    }
+
+    return value;
+  }
+}
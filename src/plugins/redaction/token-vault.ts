@@ -0,0 +1,46 @@
+/**
+ * @file Token Vault for the Redaction Plugin
+ * @version 1.0.0
+ * @description Storage for values replaced by tokens, so they can be restored
+ */
+
+/**
+ * Where tokenized values are kept. Tokens are derived from the values, so
+ * storing a value twice under the same token is expected.
+ */
+export interface TokenVault {
+  /** Remember the value behind a token */
+  store(token: string, value: string): Promise<void>;
+
+  /** The value behind a token, if it is still known */
+  lookup(token: string): Promise<string | undefined>;
+
+  /** Release the vault's resources */
+  close?(): Promise<void>;
+}
+
+/**
+ * Vault kept in memory, forgetting the least recently stored tokens beyond
+ * maxEntries (default: 10000)
+ */
+export class MemoryTokenVault implements TokenVault {
+  private values = new Map<string, string>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  async store(token: string, value: string): Promise<void> {
+    this.values.delete(token);
+    this.values.set(token, value);
+
+    while (this.values.size > this.maxEntries) {
+      this.values.delete(this.values.keys().next().value!);
+    }
+  }
+
+  async lookup(token: string): Promise<string | undefined> {
+    return this.values.get(token);
+  }
+}
@@ -112,7 +112,7 @@ export function createQuickSetup(options: {
  * Type guard to check if an error is a monetization error
  */
 export function isMonetizationError(error: any): error is MonetizationError {
-  return error instanceof Error && 'code' in error && 'statusCode' in error;
+  return error instanceof MonetizationError;
 }
 
 /**
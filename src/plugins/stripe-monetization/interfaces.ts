@@ -7,7 +7,7 @@
  * for implementing comprehensive Stripe-based monetization in MCP servers.
  */
 
-import { PluginConfig, PluginStats } from '../../interfaces/plugin.js';
+import { PluginConfig, PluginStats, PluginError, ToolSelector } from '../../interfaces/plugin.js';
 import { ToolCallContext, ToolCallResult } from '../../interfaces/proxy-hooks.js';
 
 /**
@@ -40,6 +40,9 @@ export interface PricingConfig {
     /** Tool-specific pricing overrides */
     toolPricing?: Record<string, number>;
     
+    /** Prices by backend for tools served through a gateway; tool overrides take precedence */
+    upstreamPricing?: Record<string, number>;
+    
     /** Minimum charge amount in cents */
     minimumCharge?: number;
     
@@ -113,6 +116,9 @@ export interface PricingConfig {
     /** Tool-specific credit costs */
     toolCredits?: Record<string, number>;
     
+    /** Credit costs by backend for tools served through a gateway; tool costs take precedence */
+    upstreamCredits?: Record<string, number>;
+    
     /** Credit purchase options */
     creditPackages: Array<{
       id: string;
@@ -289,6 +295,21 @@ export interface StripeMonetizationConfig extends PluginConfig {
   /** Pricing configuration */
   pricing: PricingConfig;
   
+  /** Where clients are sent to pay or upgrade when a call requires it */
+  upgradeUrl?: string;
+  
+  /** How tools/list is tailored to each customer */
+  toolListing?: {
+    /** Tools only entitled customers can see and call */
+    premiumTools?: ToolSelector[];
+    
+    /** Plans whose subscribers are entitled to premium tools (default: any plan) */
+    premiumPlans?: string[];
+    
+    /** Append each tool's price to its description (per-call and credit billing) */
+    showPricing?: boolean;
+  };
+  
   /** Database configuration */
   database: {
     /** Database type */
@@ -613,14 +634,18 @@ export interface ManagementApiEndpoints {
 
 /**
  * Error types specific to monetization
+ * These are deliberate refusals, so they abort the call without counting
+ * against the plugin's health.
  */
-export class MonetizationError extends Error {
+export class MonetizationError extends PluginError {
+  declare statusCode: number;
+  
   constructor(
     message: string,
-    public code: string,
-    public statusCode: number = 400
+    code: string,
+    statusCode: number = 400
   ) {
-    super(message);
+    super(message, { severity: 'abort', code, statusCode });
     this.name = 'MonetizationError';
   }
 }
@@ -644,7 +669,10 @@ export class SubscriptionRequiredError extends MonetizationError {
 }
 
 export class RateLimitExceededError extends MonetizationError {
-  constructor(message: string = 'Rate limit exceeded') {
+  constructor(
+    message: string = 'Rate limit exceeded',
+    public retryAfter?: number
+  ) {
     super(message, 'RATE_LIMIT_EXCEEDED', 429);
   }
 }
@@ -9,11 +9,13 @@
  * - Usage-based billing with Stripe Meters
  * - Credit/token systems
  * - Freemium models with usage limits
+ * - Per-customer tool listings with premium tools and prices
  */
 
 import { BasePlugin } from '../../interfaces/plugin.js';
-import { ToolCallResult } from '../../interfaces/proxy-hooks.js';
-import { PluginInitContext, PluginContext } from '../../interfaces/plugin.js';
+import { ToolCallResult, ErrorMapping, ToolListResult, UpstreamContext } from '../../interfaces/proxy-hooks.js';
+import { PluginInitContext, PluginContext, ToolListPluginContext } from '../../interfaces/plugin.js';
+import { isToolSelected } from '../../utils/tool-matcher.js';
 import {
   StripeMonetizationConfig,
   MonetizedToolCallContext,
@@ -53,6 +55,29 @@ export class StripeMonetizationPlugin extends BasePlugin {
     minWrapperVersion: '1.0.0'
   };
 
+  /**
+   * Tell clients when to retry after a rate limit and where to pay or
+   * upgrade when a call requires payment
+   */
+  readonly errorMappings: ErrorMapping[] = [
+    {
+      errorType: RateLimitExceededError,
+      map: error => ({
+        code: (error as RateLimitExceededError).code,
+        statusCode: (error as RateLimitExceededError).statusCode,
+        retryAfter: (error as RateLimitExceededError).retryAfter
+      })
+    },
+    {
+      errorType: MonetizationError,
+      map: error => ({
+        code: (error as MonetizationError).code,
+        statusCode: (error as MonetizationError).statusCode,
+        upgradeUrl: (error as MonetizationError).statusCode === 402 ? this.config.upgradeUrl : undefined
+      })
+    }
+  ];
+
   declare public config: StripeMonetizationConfig;
   private databaseManager!: DatabaseManager;
   private stripeService!: StripeService;
@@ -177,8 +202,13 @@ export class StripeMonetizationPlugin extends BasePlugin {
         throw new AuthenticationError('Invalid authentication token');
       }
 
+      // Premium tools are for entitled customers only
+      if (this.isPremiumTool(context.toolName, context.toolTags ?? []) && !this.isEntitled(customer)) {
+        throw new SubscriptionRequiredError(`Tool '${context.toolName}' requires a premium subscription`);
+      }
+
       // Check if tool should be processed
-      if (!this.shouldProcessTool(context.toolName)) {
+      if (!this.shouldProcessTool(context.toolName, context.toolTags)) {
         return; // Skip monetization for this tool
       }
 
@@ -191,7 +221,7 @@ export class StripeMonetizationPlugin extends BasePlugin {
         customer,
         cost,
         credits: this.config.billingModel === 'credit_system' ? 
-          this.calculateCreditsRequired(context.toolName) : undefined
+          this.calculateCreditsRequired(context) : undefined
       };
 
       // Check rate limits
@@ -301,6 +331,36 @@ export class StripeMonetizationPlugin extends BasePlugin {
     }
   }
 
+  /**
+   * Tools list hook - hides premium tools from customers not entitled to them
+   * and adds prices to tool descriptions
+   */
+  async afterListTools(context: ToolListPluginContext, result: ToolListResult): Promise<ToolListResult> {
+    const listing = this.config.toolListing;
+    if (!this.initialized || !listing) {
+      return result;
+    }
+
+    const customer = listing.premiumTools ? await this.findCustomer(context) : null;
+    const entitled = customer !== null && this.isEntitled(customer);
+
+    const tools = result.result.tools
+      .filter(tool => {
+        const name = result.aliases?.[tool.name] ?? tool.name;
+        return entitled || !this.isPremiumTool(name, context.toolTags[name] ?? []);
+      })
+      .map(tool => {
+        const name = result.aliases?.[tool.name] ?? tool.name;
+        const price = listing.showPricing && this.shouldProcessTool(name, context.toolTags[name])
+          ? this.describePrice(name, context.upstreams?.[name])
+          : undefined;
+        if (!price) return tool;
+        return { ...tool, description: tool.description ? `${tool.description} (${price})` : price };
+      });
+
+    return { ...result, result: { ...result.result, tools } };
+  }
+
   /**
    * Health check for the plugin
    */
@@ -366,6 +426,10 @@ export class StripeMonetizationPlugin extends BasePlugin {
         await this.webhookHandler.destroy();
       }
 
+      if (this.usageTracker) {
+        this.usageTracker.destroy();
+      }
+
       if (this.databaseManager) {
         await this.databaseManager.close();
       }
@@ -406,15 +470,27 @@ export class StripeMonetizationPlugin extends BasePlugin {
     return path.split('.').reduce((o, p) => o?.[p], obj);
   }
 
-  private extractAuthToken(context: PluginContext): string | null {
-    // Try to extract from metadata first
+  private extractAuthToken(context: PluginContext | ToolListPluginContext): string | null {
+    // Prefer credentials the transport already validated
+    const authInfo = context.request?.authInfo;
+    if (authInfo?.token) {
+      return authInfo.token;
+    }
+
+    const headers = context.request?.requestInfo?.headers;
+    const requestAuthHeader = Array.isArray(headers?.authorization) ? headers.authorization[0] : headers?.authorization;
+    if (requestAuthHeader?.startsWith('Bearer ')) {
+      return requestAuthHeader.substring(7);
+    }
+
+    // Then fall back to metadata
     const authHeader = context.metadata?.authorization;
     if (authHeader?.startsWith('Bearer ')) {
       return authHeader.substring(7);
     }
 
     // Try to extract API key
-    const apiKey = context.metadata?.apiKey || context.args?.apiKey;
+    const apiKey = context.metadata?.apiKey || ('args' in context ? context.args?.apiKey : undefined);
     if (apiKey && typeof apiKey === 'string') {
       return apiKey;
     }
@@ -430,8 +506,7 @@ export class StripeMonetizationPlugin extends BasePlugin {
 
     switch (billingModel) {
       case 'per_call':
-        return pricing.perCall?.toolPricing?.[context.toolName] || 
-               pricing.perCall?.defaultPrice || 0;
+        return this.getPerCallPrice(context.toolName, context.upstream);
 
       case 'subscription':
         // Check if covered by subscription
@@ -473,11 +548,74 @@ export class StripeMonetizationPlugin extends BasePlugin {
     }
   }
 
-  private calculateCreditsRequired(toolName: string): number {
+  private calculateCreditsRequired(context: PluginContext): number {
     if (this.config.billingModel !== 'credit_system') return 0;
     
-    return this.config.pricing.creditSystem?.toolCredits?.[toolName] ||
-           this.config.pricing.creditSystem?.creditsPerCall || 1;
+    return this.getCreditsPerCall(context.toolName, context.upstream);
+  }
+
+  private getPerCallPrice(toolName: string, upstream?: UpstreamContext): number {
+    const perCall = this.config.pricing.perCall;
+    return perCall?.toolPricing?.[toolName] ||
+           (upstream && perCall?.upstreamPricing?.[upstream.name]) ||
+           perCall?.defaultPrice || 0;
+  }
+
+  private getCreditsPerCall(toolName: string, upstream?: UpstreamContext): number {
+    const creditSystem = this.config.pricing.creditSystem;
+    return creditSystem?.toolCredits?.[toolName] ||
+           (upstream && creditSystem?.upstreamCredits?.[upstream.name]) ||
+           creditSystem?.creditsPerCall || 1;
+  }
+
+  /**
+   * Price of one call as shown in tool descriptions, for billing models
+   * that charge per call
+   */
+  private describePrice(toolName: string, upstream?: UpstreamContext): string | undefined {
+    switch (this.config.billingModel) {
+      case 'per_call': {
+        const price = this.getPerCallPrice(toolName, upstream);
+        return price > 0
+          ? `Price: ${(price / 100).toFixed(2)} ${this.config.pricing.currency.toUpperCase()} per call`
+          : undefined;
+      }
+
+      case 'credit_system': {
+        const credits = this.getCreditsPerCall(toolName, upstream);
+        return `Cost: ${credits} ${credits === 1 ? 'credit' : 'credits'} per call`;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  private isPremiumTool(toolName: string, toolTags: readonly string[]): boolean {
+    const premiumTools = this.config.toolListing?.premiumTools;
+    return !!premiumTools && isToolSelected({ includeTools: premiumTools }, toolName, toolTags);
+  }
+
+  private isEntitled(customer: CustomerInfo): boolean {
+    const premiumPlans = this.config.toolListing?.premiumPlans;
+    const subscribed = customer.subscriptionStatus === 'active' || customer.subscriptionStatus === 'trialing';
+    return subscribed && (!premiumPlans || (!!customer.planId && premiumPlans.includes(customer.planId)));
+  }
+
+  /**
+   * The customer behind a tools/list request; anonymous or unknown callers
+   * get the listing for customers without entitlements
+   */
+  private async findCustomer(context: ToolListPluginContext): Promise<CustomerInfo | null> {
+    const authToken = this.extractAuthToken(context);
+    if (!authToken) return null;
+
+    try {
+      return await this.authManager.authenticate(authToken);
+    } catch (error) {
+      this.logger?.debug('Could not identify the customer listing tools:', error);
+      return null;
+    }
   }
 
   private async checkRateLimits(customer: CustomerInfo, toolName: string): Promise<void> {
@@ -491,7 +629,8 @@ export class StripeMonetizationPlugin extends BasePlugin {
 
     if (isLimited) {
       throw new RateLimitExceededError(
-        `Rate limit exceeded for tool: ${toolName}`
+        `Rate limit exceeded for tool: ${toolName}`,
+        Math.ceil(this.config.rateLimiting.windowMs / 1000)
       );
     }
   }
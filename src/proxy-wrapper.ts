@@ -5,7 +5,7 @@
  * @lastModified 2024-03-17
  * 
  * This module provides a lightweight wrapper for an MCP Server that
- * allows intercepting and modifying tool calls.
+ * allows intercepting and modifying tool calls, resource reads and prompt gets.
  * 
  * IMPORTANT:
  * - All changes must be accompanied by tests
@@ -15,15 +15,54 @@
  * - Instance wrapping of an existing MCP server
  * - Pre-call hook execution
  * - Post-call hook execution
- * - Tool call interception
+ * - Plugin recovery from tool handler errors
+ * - Tool call interception for every registration overload
+ * - Resource read and prompt get interception
+ * - Per-caller tool listings and tool aliases through list hooks
+ * - Retroactive wrapping of tools, resources and prompts registered earlier
+ * - Mapping of errors to MCP error shapes that keep their codes
+ * - Graceful shutdown that drains in-flight calls
  * - Error handling and logging
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  McpServer,
+  RegisteredTool,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  RegisteredPrompt
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListToolsResult, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { createLogger } from './utils/logger.js';
 import { v4 as uuidv4 } from 'uuid';
-import { ProxyWrapperOptions, ToolCallContext, ToolCallResult } from './interfaces/proxy-hooks.js';
+import {
+  ProxyWrapperOptions,
+  ToolCallContext,
+  ToolCallResult,
+  ResourceReadContext,
+  ResourceReadResult,
+  PromptGetContext,
+  PromptGetResult,
+  ToolListContext,
+  ToolListResult,
+  ProxiedMcpServer,
+  ProxyHandle,
+  ShutdownOptions,
+  RemovePluginOptions,
+  McpRequestContext,
+  StructuredContentPolicy
+} from './interfaces/proxy-hooks.js';
+import {
+  ProxyPlugin,
+  PluginConfig,
+  PluginConfigUpdate,
+  PluginCallState,
+  InvalidStructuredContentError
+} from './interfaces/plugin.js';
 import { DefaultPluginManager } from './utils/plugin-manager.js';
+import { ErrorMapper } from './utils/error-mapper.js';
+import { tagsFromAnnotations } from './utils/tool-matcher.js';
+import { validateToolArgs } from './utils/tool-args.js';
 
 // Define types for the request handler extra
 type RequestHandlerExtra = any;
@@ -32,15 +71,15 @@ type RequestHandlerExtra = any;
  * Wraps an MCP server with a proxy that allows intercepting tool calls
  * @param server The MCP server to wrap
  * @param options Options for the proxy wrapper
- * @returns A new MCP server with the proxy functionality
+ * @returns The same MCP server with the proxy functionality and a `proxy` control handle
  */
 export async function wrapWithProxy(
   server: McpServer,
   options?: ProxyWrapperOptions
-): Promise<McpServer> {
+): Promise<ProxiedMcpServer> {
   // Check if server is already wrapped to prevent double wrapping
   if ((server as any)._isProxyWrapped) {
-    return server;
+    return server as ProxiedMcpServer;
   }
   const logger = createLogger({
     level: options?.debug ? 'debug' : 'info',
@@ -69,170 +108,869 @@ export async function wrapWithProxy(
     await pluginManager.initializeAll();
   }
   
+  // Plugins added at runtime to a proxy started without any share one lazily created manager
+  let pluginManagerReady: Promise<DefaultPluginManager> | null = pluginManager && Promise.resolve(pluginManager);
+  const ensurePluginManager = (): Promise<DefaultPluginManager> => {
+    pluginManagerReady ??= (async () => {
+      const manager = new DefaultPluginManager('1.0.0', options?.pluginConfig || {});
+      await manager.initializeAll();
+      pluginManager = manager;
+      return manager;
+    })();
+    return pluginManagerReady;
+  };
+  
   logger.info('Initializing MCP Proxy Wrapper');
   logger.debug('Options:', options);
   
-  // Create a proxy around the server's tool method
-  const originalTool = server.tool.bind(server);
+  // Configured mappings take precedence over those contributed by plugins
+  const errorMapper = new ErrorMapper(
+    () => [
+      ...(options?.errorMappings || []),
+      ...(pluginManager?.getExecutionOrder().flatMap(p => p.errorMappings || []) || [])
+    ],
+    options?.toolErrorShape
+  );
   
-  // Override the tool method to intercept tool registrations
-  // We need to use any here because the SDK types don't match the runtime behavior
-  const toolMethod: any = function(name: string, paramsSchemaOrCallback: any, callbackOrUndefined?: any) {
-    logger.debug(`Intercepting tool registration: ${name}`);
+  // Calls currently being handled, drained on shutdown
+  const inFlight = new Set<Promise<unknown>>();
+  let totalCalls = 0;
+  let shutdownPromise: Promise<void> | null = null;
+  
+  /**
+   * Wait for the given calls to settle, giving up after the timeout.
+   * Resolves to false if the deadline was reached first.
+   */
+  const waitForCalls = async (calls: Iterable<Promise<unknown>>, timeout: number): Promise<boolean> => {
+    const pending = Array.from(calls);
+    if (pending.length === 0) return true;
     
-    // Determine if this is the 2-arg or 3-arg version
-    const isThreeArgVersion = callbackOrUndefined !== undefined;
-    const paramsSchema = isThreeArgVersion ? paramsSchemaOrCallback : {};
-    const originalCallback = isThreeArgVersion ? callbackOrUndefined : paramsSchemaOrCallback;
-    
-    // Create a wrapped handler that executes hooks
-    const wrappedCallback = async (argsOrExtra: any, extra?: RequestHandlerExtra) => {
-      // Handle both 1-arg and 2-arg callback signatures
-      const args = isThreeArgVersion ? argsOrExtra : {};
-      const actualExtra = isThreeArgVersion ? extra : argsOrExtra;
-      const requestId = uuidv4();
-      const context: ToolCallContext = {
-        toolName: name,
-        args,
-        metadata: { 
-          ...globalMetadata,
-          requestId,
-          timestamp: new Date().toISOString()
-        }
-      };
-      
-      logger.debug(`Tool call: ${name}`, { requestId, args });
-      
+    let deadline: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      Promise.allSettled(pending).then(() => true),
+      new Promise<boolean>(resolve => {
+        deadline = setTimeout(() => resolve(false), timeout);
+      })
+    ]);
+    clearTimeout(deadline);
+    return drained;
+  };
+  
+  /**
+   * Count a handler's calls as in flight until they settle, and refuse
+   * new calls once shutdown has started
+   */
+  const trackCalls = <A extends any[], R>(handler: (...args: A) => Promise<R>) => (...args: A): Promise<R> => {
+    if (shutdownPromise) {
+      return Promise.reject(new Error('Server is shutting down'));
+    }
+    
+    totalCalls++;
+    const call = handler(...args);
+    inFlight.add(call);
+    call.then(() => inFlight.delete(call), () => inFlight.delete(call));
+    return call;
+  };
+  
+  // JSON-RPC errors to raise for tool calls, by the request's handler extra
+  const toolRpcErrors = new WeakMap<object, McpError>();
+  
+  // Names aliased tools were called by, by the request's handler extra
+  const aliasNames = new WeakMap<object, string>();
+  
+  // The server's own tools/list handler, once routeToolList has replaced it
+  let listServerTools: ((request: any, extra: RequestHandlerExtra) => Promise<ListToolsResult>) | undefined;
+  
+  /**
+   * The SDK turns anything a tool callback throws into an isError result, so
+   * errors mapped to the 'jsonrpc' shape are returned as an isError result and
+   * raised from the tools/call request handler instead. Tools with an output
+   * schema always use this route: the SDK rejects their error results for
+   * lacking structured content, which would hide the actual error. Calls
+   * without a recorded error, or a server whose handler cannot be reached,
+   * keep the isError result. Calls to a tool alias are routed to the tool here.
+   */
+  const routeToolRpcErrors = () => {
+    const handlers: Map<string, (...args: any[]) => Promise<any>> | undefined = (server.server as any)._requestHandlers;
+    const handler = handlers?.get('tools/call');
+    if (!handlers || !handler || (handler as any)._routesRpcErrors) return;
+    
+    const routed = async (request: any, extra: RequestHandlerExtra) => {
+      let result: any;
       try {
-        // Execute plugin before hooks first
-        logger.debug(`Checking plugin manager beforeToolCall for ${name}`, { hasPluginManager: !!pluginManager, requestId });
-        if (pluginManager) {
-          logger.info(`Executing plugin beforeToolCall hooks for ${name}`, { requestId });
-          
-          try {
-            const pluginShortCircuit = await pluginManager.executeBeforeHooks(context);
-            if (pluginShortCircuit) {
-              logger.info(`Plugin short-circuited tool call for ${name}`, { requestId });
-              return pluginShortCircuit.result;
-            }
-            logger.info(`Plugin beforeToolCall hooks completed for ${name}`, { requestId });
-          } catch (error) {
-            logger.error(`Error in plugin beforeToolCall hooks for ${name}:`, error);
-            throw new Error(`Plugin error: ${error instanceof Error ? error.message : String(error)}`);
+        result = await handler(await resolveToolAlias(request, extra), extra);
+      } catch (error) {
+        throw (extra && toolRpcErrors.get(extra)) ?? error;
+      }
+      
+      const rpcError = extra && toolRpcErrors.get(extra);
+      if (rpcError) {
+        throw rpcError;
+      }
+      return result;
+    };
+    (routed as any)._routesRpcErrors = true;
+    handlers.set('tools/call', routed);
+  };
+  
+  /**
+   * Pass the server's tools/list results through the list hooks, so plugins
+   * can hide, rewrite or rename tools per caller
+   */
+  const routeToolList = () => {
+    const handlers: Map<string, (...args: any[]) => Promise<any>> | undefined = (server.server as any)._requestHandlers;
+    const handler = handlers?.get('tools/list');
+    if (!handlers || !handler || (handler as any)._runsListHooks) return;
+    
+    listServerTools = handler;
+    const listed = async (request: any, extra: RequestHandlerExtra) => hasListHooks()
+      ? (await listTools(handler, request, extra)).result
+      : handler(request, extra);
+    (listed as any)._runsListHooks = true;
+    handlers.set('tools/list', listed);
+  };
+  
+  const hasListHooks = () => !!(pluginManager || hooks.beforeListTools || hooks.afterListTools);
+  
+  /**
+   * Build one caller's tool listing. Plugin before hooks run first and user
+   * hooks second, either of which may answer instead of the server; after
+   * hooks run in the reverse order, as they do for tool calls.
+   */
+  const listTools = async (
+    listToolsHandler: (request: any, extra: RequestHandlerExtra) => Promise<ListToolsResult>,
+    request: any,
+    extra: RequestHandlerExtra
+  ): Promise<ToolListResult> => {
+    const registeredTools: Record<string, RegisteredTool> = (server as any)._registeredTools ?? {};
+    const requestId = uuidv4();
+    const context = createCallContext<ToolListContext>({
+      toolTags: Object.fromEntries(Object.entries(registeredTools)
+        .map(([name, registeredTool]) => [name, getToolTags(name, registeredTool)])),
+      upstreams: options?.toolUpstreams,
+      request: requestContext(extra),
+      metadata: {
+        ...globalMetadata,
+        requestId,
+        timestamp: new Date().toISOString()
+      }
+    }, requestId, extra);
+    
+    const pluginListing = pluginManager && await pluginManager.executeBeforeListToolsHooks(context);
+    if (pluginListing) {
+      logger.debug('Plugin short-circuited tools/list', { requestId });
+      return pluginListing;
+    }
+    
+    const hookListing = hooks.beforeListTools && await hooks.beforeListTools(context);
+    if (hookListing) {
+      logger.debug('User hook short-circuited tools/list', { requestId });
+      return hookListing;
+    }
+    
+    let listing: ToolListResult = { result: await listToolsHandler(request, extra) };
+    if (hooks.afterListTools) {
+      listing = await hooks.afterListTools(context, listing);
+    }
+    if (pluginManager) {
+      listing = await pluginManager.executeAfterListToolsHooks(context, listing);
+    }
+    return listing;
+  };
+  
+  /**
+   * Point a tools/call request for a name only the listing knows at the tool
+   * it stands for. The caller's listing is built again for this, so aliases
+   * that differ per caller resolve as they were listed to that caller.
+   */
+  const resolveToolAlias = async (request: any, extra: RequestHandlerExtra) => {
+    const registeredTools: Record<string, RegisteredTool> = (server as any)._registeredTools ?? {};
+    const name = request?.params?.name;
+    if (typeof name !== 'string' || registeredTools[name] || !listServerTools || !hasListHooks()) {
+      return request;
+    }
+    
+    const { aliases = {} } = await listTools(listServerTools, { method: 'tools/list', params: {} }, extra);
+    const visited = new Set<string>();
+    let target = name;
+    // Follow aliases of aliases, as when two plugins rename the same tool
+    while (!registeredTools[target] && aliases[target] && !visited.has(target)) {
+      visited.add(target);
+      target = aliases[target];
+    }
+    if (!registeredTools[target]) {
+      return request;
+    }
+    
+    logger.debug(`Routing call to ${name} to the tool ${target}`);
+    if (extra) {
+      aliasNames.set(extra, name);
+    }
+    return { ...request, params: { ...request.params, name: target } };
+  };
+  
+  /**
+   * Create the single context object for one call. With plugins loaded it is a
+   * full plugin context, so pluginData written in a before hook is still there
+   * in the after hooks, and user hooks see the same object.
+   */
+  const createCallContext = <T extends object>(context: T, requestId: string, extra?: RequestHandlerExtra): T =>
+    pluginManager ? pluginManager.createPluginContext(context, requestId, extra?.signal) : context;
+  
+  /**
+   * Details of the MCP request for hooks, taken from the extra the SDK passes to handlers
+   */
+  const requestContext = (extra: RequestHandlerExtra): McpRequestContext | undefined => extra && {
+    id: extra.requestId,
+    sessionId: extra.sessionId,
+    authInfo: extra.authInfo,
+    requestInfo: extra.requestInfo,
+    meta: extra._meta,
+    progressToken: extra._meta?.progressToken,
+    signal: extra.signal,
+    sendNotification: extra.sendNotification,
+    sendRequest: extra.sendRequest
+  };
+  
+  /**
+   * The extra passed on to a wrapped handler. It carries the call's signal, so
+   * the handler also stops when a plugin error or timeout ends the call, and
+   * routes the handler's progress notifications through the plugins.
+   */
+  const handlerExtra = (
+    context: ToolCallContext | ResourceReadContext | PromptGetContext,
+    extra: RequestHandlerExtra
+  ): RequestHandlerExtra => {
+    const signal = (context as Partial<PluginCallState>).signal;
+    const manager = pluginManager;
+    if (!signal || !extra || !manager) return extra;
+    
+    return {
+      ...extra,
+      signal,
+      sendNotification: async (notification: any) => {
+        const params = notification?.params;
+        if (notification?.method !== 'notifications/progress' || params?.progressToken !== context.request?.progressToken) {
+          return extra.sendNotification(notification);
+        }
+        
+        await manager.reportProgress(context, {
+          progress: params.progress,
+          total: params.total,
+          message: params.message,
+          origin: 'tool'
+        });
+      }
+    };
+  };
+  
+  /**
+   * Tags used by 'tag:' tool selectors: the configured tag map plus the
+   * tags implied by the tool's annotations
+   */
+  const getToolTags = (name: string, registeredTool: RegisteredTool): string[] => Array.from(new Set([
+    ...(options?.toolTags?.[name] || []),
+    ...tagsFromAnnotations(registeredTool.annotations)
+  ]));
+  
+  /**
+   * Build the hook-executing handler that replaces a tool's callback.
+   * Whether the SDK passes parsed args is decided by the tool's input schema
+   * at call time, so every registration overload is handled the same way.
+   */
+  const createToolHandler = (
+    registration: { name: string },
+    registeredTool: RegisteredTool,
+    originalCallback: (...args: any[]) => any
+  ) => async (...callbackArgs: any[]) => {
+    const name = registration.name;
+    const hasArgs = registeredTool.inputSchema !== undefined;
+    const args = hasArgs ? callbackArgs[0] : {};
+    const actualExtra: RequestHandlerExtra = hasArgs ? callbackArgs[1] : callbackArgs[0];
+    const requestId = uuidv4();
+    const context = createCallContext<ToolCallContext>({
+      toolName: name,
+      args,
+      toolTags: getToolTags(name, registeredTool),
+      toolAnnotations: registeredTool.annotations,
+      calledAs: actualExtra && aliasNames.get(actualExtra),
+      toolSchema: registeredTool.inputSchema,
+      outputSchema: registeredTool.outputSchema,
+      upstream: options?.toolUpstreams?.[name],
+      request: requestContext(actualExtra),
+      metadata: { 
+        ...globalMetadata,
+        requestId,
+        timestamp: new Date().toISOString()
+      }
+    }, requestId, actualExtra);
+    
+    logger.debug(`Tool call: ${name}`, { requestId, args });
+    
+    try {
+      // Execute plugin before hooks first
+      logger.debug(`Checking plugin manager beforeToolCall for ${name}`, { hasPluginManager: !!pluginManager, requestId });
+      if (pluginManager) {
+        logger.info(`Executing plugin beforeToolCall hooks for ${name}`, { requestId });
+        
+        try {
+          const pluginShortCircuit = await pluginManager.executeBeforeHooks(context);
+          if (pluginShortCircuit) {
+            logger.info(`Plugin short-circuited tool call for ${name}`, { requestId });
+            return pluginShortCircuit.result;
           }
-        } else {
-          logger.debug(`No plugin manager available for beforeToolCall ${name}`, { requestId });
+          logger.info(`Plugin beforeToolCall hooks completed for ${name}`, { requestId });
+        } catch (error) {
+          logger.error(`Error in plugin beforeToolCall hooks for ${name}:`, error);
+          throw new Error(`Plugin error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
         }
-
-        // Execute user-defined pre-call hook after plugins
-        if (hooks.beforeToolCall) {
-          logger.debug(`Executing user beforeToolCall hook for ${name}`, { requestId });
+      } else {
+        logger.debug(`No plugin manager available for beforeToolCall ${name}`, { requestId });
+      }
+      
+      // Execute user-defined pre-call hook after plugins
+      if (hooks.beforeToolCall) {
+        logger.debug(`Executing user beforeToolCall hook for ${name}`, { requestId });
+        
+        try {
+          const hookResult = await hooks.beforeToolCall(context);
           
-          try {
-            const hookResult = await hooks.beforeToolCall(context);
-            
-            // If the hook returns a result, short-circuit the tool call
-            if (hookResult) {
-              logger.debug(`Short-circuiting tool call for ${name} with user hook result`, { requestId });
-              return hookResult.result;
-            }
-          } catch (error) {
-            logger.error(`Error in user beforeToolCall hook for ${name}:`, error);
-            throw new Error(`Hook error: ${error instanceof Error ? error.message : String(error)}`);
+          // If the hook returns a result, short-circuit the tool call
+          if (hookResult) {
+            logger.debug(`Short-circuiting tool call for ${name} with user hook result`, { requestId });
+            return hookResult.result;
           }
+        } catch (error) {
+          logger.error(`Error in user beforeToolCall hook for ${name}:`, error);
+          throw new Error(`Hook error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
         }
+      }
+      
+      // Call the original handler with potentially modified args from hooks,
+      // once they are checked against the tool's schema again
+      logger.debug(`Calling original handler for ${name}`, { requestId });
+      validateToolArgs(context);
+      let toolResult: ToolCallResult;
+      try {
+        const result = hasArgs 
+          ? await originalCallback(context.args, handlerExtra(context, actualExtra))
+          : await originalCallback(handlerExtra(context, actualExtra));
         
-        // Call the original handler with potentially modified args from hooks
-        logger.debug(`Calling original handler for ${name}`, { requestId });
-        const result = isThreeArgVersion 
-          ? await originalCallback(context.args, actualExtra)
-          : await originalCallback(actualExtra);
-        
-        let toolResult: ToolCallResult = {
+        toolResult = {
           result,
           metadata: {
             ...context.metadata,
             completedAt: new Date().toISOString()
           }
         };
+      } catch (error) {
+        // Give plugins a chance to recover before falling back to an error response
+        const recovery = pluginManager
+          ? await pluginManager.executeToolErrorHooks(
+              context,
+              error instanceof Error ? error : new Error(String(error))
+            )
+          : undefined;
         
-        // Execute user-defined post-call hook first
-        if (hooks.afterToolCall) {
-          logger.debug(`Executing afterToolCall hook for ${name}`, { requestId });
-          
-          try {
-            toolResult = await hooks.afterToolCall(context, toolResult);
-          } catch (error) {
-            logger.error(`Error in afterToolCall hook for ${name}:`, error);
-            throw new Error(`Hook error: ${error instanceof Error ? error.message : String(error)}`);
-          }
-        }
-        
-        // Execute plugin after hooks
-        logger.debug(`Checking plugin manager for ${name}`, { hasPluginManager: !!pluginManager, requestId });
-        if (pluginManager) {
-          logger.info(`Executing plugin afterToolCall hooks for ${name}`, { requestId });
-          
-          try {
-            toolResult = await pluginManager.executeAfterHooks(context, toolResult);
-            logger.info(`Plugin hooks completed for ${name}`, { requestId });
-          } catch (error) {
-            logger.error(`Error in plugin afterToolCall hooks for ${name}:`, error);
-            throw new Error(`Plugin error: ${error instanceof Error ? error.message : String(error)}`);
-          }
-        } else {
-          logger.debug(`No plugin manager available for ${name}`, { requestId });
+        if (!recovery) {
+          throw error;
         }
         
-        // Merge metadata from proxy wrapper and plugins into MCP standard _meta field
-        const finalResult = {
-          ...toolResult.result,
-          _meta: {
-            ...toolResult.metadata,
-            ...toolResult.result._meta
+        logger.info(`Recovered from tool error in ${name}`, { requestId, recoveredBy: recovery.metadata?.recoveredBy });
+        toolResult = {
+          ...recovery,
+          metadata: {
+            ...context.metadata,
+            completedAt: new Date().toISOString(),
+            ...recovery.metadata
           }
         };
+      }
+      
+      // Keep the tool's own structured output in case the hooks invalidate it
+      const toolStructuredContent = context.outputSchema
+        ? structuredClone(toolResult.result?.structuredContent)
+        : undefined;
+      
+      // Execute user-defined post-call hook first
+      if (hooks.afterToolCall) {
+        logger.debug(`Executing afterToolCall hook for ${name}`, { requestId });
         
-        logger.debug(`Returning final result for ${name}`, { 
-          requestId, 
-          hasMetadata: !!finalResult._meta,
-          metadataKeys: finalResult._meta ? Object.keys(finalResult._meta) : []
-        });
-        
-        return finalResult;
-      } catch (error) {
-        logger.error(`Error processing tool call ${name}:`, error);
+        try {
+          toolResult = await hooks.afterToolCall(context, toolResult);
+        } catch (error) {
+          logger.error(`Error in afterToolCall hook for ${name}:`, error);
+          throw new Error(`Hook error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+      }
+      
+      // Execute plugin after hooks
+      logger.debug(`Checking plugin manager for ${name}`, { hasPluginManager: !!pluginManager, requestId });
+      if (pluginManager) {
+        logger.info(`Executing plugin afterToolCall hooks for ${name}`, { requestId });
         
-        // Return a proper error response
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        try {
+          toolResult = await pluginManager.executeAfterHooks(context, toolResult);
+          logger.info(`Plugin hooks completed for ${name}`, { requestId });
+        } catch (error) {
+          logger.error(`Error in plugin afterToolCall hooks for ${name}:`, error);
+          throw new Error(`Plugin error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+        }
+      } else {
+        logger.debug(`No plugin manager available for ${name}`, { requestId });
+      }
+      
+      if (context.outputSchema && !toolResult.result?.isError) {
+        toolResult = reconcileStructuredContent(
+          context,
+          toolResult,
+          toolStructuredContent,
+          options?.invalidStructuredContent ?? 'restore'
+        );
+        if (toolResult.metadata?.structuredContentRestored) {
+          logger.warn(`Restored the structured content of ${name} after hooks invalidated it`, { requestId });
+        }
+      }
+      
+      // Merge metadata from proxy wrapper and plugins into MCP standard _meta field
+      const finalResult = mergeResultMetadata(toolResult.result, toolResult.metadata);
+      
+      logger.debug(`Returning final result for ${name}`, { 
+        requestId, 
+        hasMetadata: !!finalResult._meta,
+        metadataKeys: finalResult._meta ? Object.keys(finalResult._meta) : []
+      });
+      
+      return finalResult;
+    } catch (error) {
+      logger.error(`Error processing tool call ${name}:`, error);
+      pluginManager?.abortCall(context, error);
+      
+      // Return an error response that keeps the error's code
+      const mapped = errorMapper.map(error);
+      const errorResult = errorMapper.toToolResult(mapped);
+      if (actualExtra && (mapped.shape === 'jsonrpc' || context.outputSchema)) {
+        toolRpcErrors.set(actualExtra, errorMapper.toMcpError(mapped));
+      }
+      return errorResult;
+    } finally {
+      await pluginManager?.executeCallEndHooks(context);
+    }
+  };
+  
+  /**
+   * Route a registered tool through the proxy, including callbacks
+   * later supplied through its update() method
+   */
+  const interceptTool = (name: string, registeredTool: RegisteredTool): RegisteredTool => {
+    const registration = { name };
+    const originalUpdate = registeredTool.update;
+    
+    registeredTool.callback = trackCalls(createToolHandler(registration, registeredTool, registeredTool.callback as any)) as any;
+    routeToolRpcErrors();
+    routeToolList();
+    registeredTool.update = ((updates: Parameters<RegisteredTool['update']>[0]) => {
+      if (updates.name) {
+        registration.name = updates.name;
+      }
+      originalUpdate({
+        ...updates,
+        callback: updates.callback && trackCalls(createToolHandler(registration, registeredTool, updates.callback as any)) as any
+      });
+    }) as RegisteredTool['update'];
+    
+    return registeredTool;
+  };
+  
+  /**
+   * Build the hook-executing handler that replaces a resource's read callback.
+   * Fixed resources receive (uri, extra); templates receive (uri, variables, extra).
+   */
+  const createResourceHandler = (
+    getName: () => string,
+    isTemplate: boolean,
+    originalCallback: (...args: any[]) => any
+  ) => async (uri: URL, ...callbackArgs: any[]) => {
+    const variables = isTemplate ? callbackArgs[0] : undefined;
+    const actualExtra: RequestHandlerExtra = isTemplate ? callbackArgs[1] : callbackArgs[0];
+    const requestId = uuidv4();
+    const context = createCallContext<ResourceReadContext>({
+      resourceName: getName(),
+      uri: uri.toString(),
+      variables,
+      request: requestContext(actualExtra),
+      metadata: {
+        ...globalMetadata,
+        requestId,
+        timestamp: new Date().toISOString()
+      }
+    }, requestId, actualExtra);
+    
+    logger.debug(`Resource read: ${context.uri}`, { requestId });
+    
+    try {
+      if (pluginManager) {
+        const pluginShortCircuit = await pluginManager.executeBeforeResourceHooks(context);
+        if (pluginShortCircuit) {
+          logger.info(`Plugin short-circuited resource read for ${context.uri}`, { requestId });
+          return pluginShortCircuit.result;
+        }
+      }
+      
+      if (hooks.beforeResourceRead) {
+        const hookResult = await hooks.beforeResourceRead(context);
+        if (hookResult) {
+          logger.debug(`Short-circuiting resource read for ${context.uri} with user hook result`, { requestId });
+          return hookResult.result;
+        }
+      }
+      
+      // Hooks may have rewritten the URI
+      const targetUri = context.uri === uri.toString() ? uri : new URL(context.uri);
+      const result = isTemplate
+        ? await originalCallback(targetUri, context.variables, handlerExtra(context, actualExtra))
+        : await originalCallback(targetUri, handlerExtra(context, actualExtra));
+      
+      let readResult: ResourceReadResult = {
+        result,
+        metadata: {
+          ...context.metadata,
+          completedAt: new Date().toISOString()
+        }
+      };
+      
+      if (hooks.afterResourceRead) {
+        readResult = await hooks.afterResourceRead(context, readResult);
+      }
+      
+      if (pluginManager) {
+        readResult = await pluginManager.executeAfterResourceHooks(context, readResult);
       }
+      
+      return mergeResultMetadata(readResult.result, readResult.metadata);
+    } catch (error) {
+      // Resource reads have no isError result shape; report a JSON-RPC error
+      logger.error(`Error processing resource read ${context.uri}:`, error);
+      pluginManager?.abortCall(context, error);
+      throw error instanceof McpError ? error : errorMapper.toMcpError(errorMapper.map(error));
+    }
+  };
+  
+  /**
+   * Route a registered resource or resource template through the proxy
+   */
+  const interceptResource = (
+    name: string,
+    registeredResource: RegisteredResource | RegisteredResourceTemplate
+  ): RegisteredResource | RegisteredResourceTemplate => {
+    const isTemplate = 'resourceTemplate' in registeredResource;
+    const registration = { name };
+    // Fixed resources keep their display name on the registration itself
+    const getName = () => isTemplate ? registration.name : (registeredResource as RegisteredResource).name;
+    const originalUpdate: (updates: any) => void = registeredResource.update;
+    
+    registeredResource.readCallback = trackCalls(createResourceHandler(getName, isTemplate, registeredResource.readCallback)) as any;
+    registeredResource.update = (updates: any) => {
+      if (isTemplate && updates.name) {
+        registration.name = updates.name;
+      }
+      originalUpdate({
+        ...updates,
+        callback: updates.callback && trackCalls(createResourceHandler(getName, isTemplate, updates.callback))
+      });
+    };
+    
+    return registeredResource;
+  };
+  
+  /**
+   * Build the hook-executing handler that replaces a prompt's callback
+   */
+  const createPromptHandler = (
+    registration: { name: string },
+    registeredPrompt: RegisteredPrompt,
+    originalCallback: (...args: any[]) => any
+  ) => async (...callbackArgs: any[]) => {
+    const name = registration.name;
+    const hasArgs = registeredPrompt.argsSchema !== undefined;
+    const args = hasArgs ? callbackArgs[0] : {};
+    const actualExtra: RequestHandlerExtra = hasArgs ? callbackArgs[1] : callbackArgs[0];
+    const requestId = uuidv4();
+    const context = createCallContext<PromptGetContext>({
+      promptName: name,
+      args,
+      request: requestContext(actualExtra),
+      metadata: {
+        ...globalMetadata,
+        requestId,
+        timestamp: new Date().toISOString()
+      }
+    }, requestId, actualExtra);
+    
+    logger.debug(`Prompt get: ${name}`, { requestId, args });
+    
+    try {
+      if (pluginManager) {
+        const pluginShortCircuit = await pluginManager.executeBeforePromptHooks(context);
+        if (pluginShortCircuit) {
+          logger.info(`Plugin short-circuited prompt get for ${name}`, { requestId });
+          return pluginShortCircuit.result;
+        }
+      }
+      
+      if (hooks.beforePromptGet) {
+        const hookResult = await hooks.beforePromptGet(context);
+        if (hookResult) {
+          logger.debug(`Short-circuiting prompt get for ${name} with user hook result`, { requestId });
+          return hookResult.result;
+        }
+      }
+      
+      const result = hasArgs
+        ? await originalCallback(context.args, handlerExtra(context, actualExtra))
+        : await originalCallback(handlerExtra(context, actualExtra));
+      
+      let promptResult: PromptGetResult = {
+        result,
+        metadata: {
+          ...context.metadata,
+          completedAt: new Date().toISOString()
+        }
+      };
+      
+      if (hooks.afterPromptGet) {
+        promptResult = await hooks.afterPromptGet(context, promptResult);
+      }
+      
+      if (pluginManager) {
+        promptResult = await pluginManager.executeAfterPromptHooks(context, promptResult);
+      }
+      
+      return mergeResultMetadata(promptResult.result, promptResult.metadata);
+    } catch (error) {
+      // Prompt gets have no isError result shape; report a JSON-RPC error
+      logger.error(`Error processing prompt get ${name}:`, error);
+      pluginManager?.abortCall(context, error);
+      throw error instanceof McpError ? error : errorMapper.toMcpError(errorMapper.map(error));
+    }
+  };
+  
+  /**
+   * Route a registered prompt through the proxy
+   */
+  const interceptPrompt = (name: string, registeredPrompt: RegisteredPrompt): RegisteredPrompt => {
+    const registration = { name };
+    const originalUpdate: (updates: any) => void = registeredPrompt.update;
+    
+    registeredPrompt.callback = trackCalls(createPromptHandler(registration, registeredPrompt, registeredPrompt.callback as any)) as any;
+    registeredPrompt.update = (updates: any) => {
+      if (updates.name) {
+        registration.name = updates.name;
+      }
+      originalUpdate({
+        ...updates,
+        callback: updates.callback && trackCalls(createPromptHandler(registration, registeredPrompt, updates.callback))
+      });
+    };
+    
+    return registeredPrompt;
+  };
+  
+  // The SDK keeps registrations in private maps; they are only read here so that
+  // entries created before wrapping are routed through the proxy as well
+  const registry = server as any;
+  
+  // Override the registration methods. Arguments are passed to the SDK unchanged,
+  // so descriptions, annotations and input/output schemas survive every overload.
+  const originalTool: (...args: any[]) => RegisteredTool = registry.tool.bind(server);
+  registry.tool = (name: string, ...rest: any[]) => {
+    logger.debug(`Intercepting tool registration: ${name}`);
+    return interceptTool(name, originalTool(name, ...rest));
+  };
+  
+  const originalResource: (...args: any[]) => RegisteredResource | RegisteredResourceTemplate = registry.resource.bind(server);
+  registry.resource = (name: string, ...rest: any[]) => {
+    logger.debug(`Intercepting resource registration: ${name}`);
+    return interceptResource(name, originalResource(name, ...rest));
+  };
+  
+  const originalPrompt: (...args: any[]) => RegisteredPrompt = registry.prompt.bind(server);
+  registry.prompt = (name: string, ...rest: any[]) => {
+    logger.debug(`Intercepting prompt registration: ${name}`);
+    return interceptPrompt(name, originalPrompt(name, ...rest));
+  };
+  
+  // Config-object registration methods only exist in newer SDK releases
+  if (typeof registry.registerTool === 'function') {
+    const originalRegisterTool: (...args: any[]) => RegisteredTool = registry.registerTool.bind(server);
+    registry.registerTool = (name: string, ...rest: any[]) => {
+      logger.debug(`Intercepting tool registration: ${name}`);
+      return interceptTool(name, originalRegisterTool(name, ...rest));
+    };
+  }
+  
+  if (typeof registry.registerResource === 'function') {
+    const originalRegisterResource: (...args: any[]) => RegisteredResource | RegisteredResourceTemplate =
+      registry.registerResource.bind(server);
+    registry.registerResource = (name: string, ...rest: any[]) => {
+      logger.debug(`Intercepting resource registration: ${name}`);
+      return interceptResource(name, originalRegisterResource(name, ...rest));
+    };
+  }
+  
+  if (typeof registry.registerPrompt === 'function') {
+    const originalRegisterPrompt: (...args: any[]) => RegisteredPrompt = registry.registerPrompt.bind(server);
+    registry.registerPrompt = (name: string, ...rest: any[]) => {
+      logger.debug(`Intercepting prompt registration: ${name}`);
+      return interceptPrompt(name, originalRegisterPrompt(name, ...rest));
     };
+  }
+  
+  // Retroactively wrap anything registered before wrapWithProxy was called
+  for (const [name, tool] of Object.entries<RegisteredTool>(registry._registeredTools ?? {})) {
+    logger.debug(`Wrapping previously registered tool: ${name}`);
+    interceptTool(name, tool);
+  }
+  
+  for (const resource of Object.values<RegisteredResource>(registry._registeredResources ?? {})) {
+    logger.debug(`Wrapping previously registered resource: ${resource.name}`);
+    interceptResource(resource.name, resource);
+  }
+  
+  for (const [name, template] of Object.entries<RegisteredResourceTemplate>(registry._registeredResourceTemplates ?? {})) {
+    logger.debug(`Wrapping previously registered resource template: ${name}`);
+    interceptResource(name, template);
+  }
+  
+  for (const [name, prompt] of Object.entries<RegisteredPrompt>(registry._registeredPrompts ?? {})) {
+    logger.debug(`Wrapping previously registered prompt: ${name}`);
+    interceptPrompt(name, prompt);
+  }
+  
+  /**
+   * Drain in-flight calls up to the deadline, then close the server and
+   * destroy plugins. Calls still running at the deadline are abandoned.
+   */
+  const shutdown = (shutdownOptions: ShutdownOptions = {}): Promise<void> => {
+    shutdownPromise ??= (async () => {
+      const timeout = shutdownOptions.timeout ?? 30000;
+      logger.info(`Shutting down MCP Proxy Wrapper with ${inFlight.size} call(s) in flight`);
+      
+      if (!await waitForCalls(inFlight, timeout)) {
+        logger.warn(`Shutdown deadline of ${timeout}ms reached with ${inFlight.size} call(s) still running`);
+      }
+      
+      try {
+        await server.close();
+      } catch (error) {
+        logger.error('Error closing server during shutdown:', error);
+      }
+      
+      if (pluginManager) {
+        await pluginManager.destroy();
+      }
+      
+      logger.info('MCP Proxy Wrapper shut down');
+    })();
     
-    // Register the tool with the wrapped handler
-    if (isThreeArgVersion) {
-      return originalTool(name, paramsSchema, wrappedCallback);
-    } else {
-      return originalTool(name, wrappedCallback);
+    return shutdownPromise;
+  };
+  
+  const addPlugin = async (plugin: ProxyPlugin, config?: PluginConfig): Promise<void> => {
+    const manager = await ensurePluginManager();
+    await manager.register(plugin, config);
+    logger.info(`Added plugin at runtime: ${plugin.name}`);
+  };
+  
+  /**
+   * Calls in flight when removal starts may already have run the plugin's
+   * before hooks, so it stays in their path until they finish
+   */
+  const removePlugin = async (pluginName: string, removeOptions: RemovePluginOptions = {}): Promise<void> => {
+    if (!pluginManager?.getPlugin(pluginName)) {
+      throw new Error(`Plugin '${pluginName}' is not registered`);
+    }
+    
+    const timeout = removeOptions.timeout ?? 30000;
+    pluginManager.drain(pluginName);
+    
+    if (!await waitForCalls(inFlight, timeout)) {
+      logger.warn(`Removing plugin ${pluginName} after ${timeout}ms with calls still running`);
     }
+    
+    await pluginManager.unregister(pluginName);
+    logger.info(`Removed plugin at runtime: ${pluginName}`);
   };
   
-  // Replace the original method
-  server.tool = toolMethod;
+  const configurePlugin = async (pluginName: string, changes: PluginConfigUpdate): Promise<void> => {
+    if (!pluginManager) {
+      throw new Error(`Plugin '${pluginName}' is not registered`);
+    }
+    await pluginManager.configure(pluginName, changes);
+  };
+  
+  const handle: ProxyHandle = {
+    shutdown,
+    getPluginManager: () => pluginManager,
+    addPlugin,
+    removePlugin,
+    configurePlugin,
+    healthCheck: async () => pluginManager ? pluginManager.healthCheck() : new Map(),
+    getStats: async () => ({
+      activeCalls: inFlight.size,
+      totalCalls,
+      shuttingDown: shutdownPromise !== null,
+      plugins: pluginManager ? await pluginManager.getAggregatedStats() : undefined,
+      observers: pluginManager?.getObserverStats()
+    })
+  };
   
   // Mark server as wrapped to prevent double wrapping
   (server as any)._isProxyWrapped = true;
   
+  const proxiedServer = server as ProxiedMcpServer;
+  proxiedServer.proxy = handle;
+  
   logger.info('MCP Proxy Wrapper initialized successfully');
   
-  return server;
+  return proxiedServer;
+}
+
+/**
+ * Merge proxy and plugin metadata into the MCP standard _meta field of a result
+ */
+function mergeResultMetadata(result: any, metadata?: Record<string, any>): any {
+  return {
+    ...result,
+    _meta: {
+      ...metadata,
+      ...result?._meta
+    }
+  };
+}
+
+/**
+ * Check the structuredContent left by the after hooks against the tool's
+ * output schema, restoring the tool's own when the policy allows it
+ */
+function reconcileStructuredContent(
+  context: ToolCallContext,
+  toolResult: ToolCallResult,
+  toolStructuredContent: unknown,
+  policy: StructuredContentPolicy
+): ToolCallResult {
+  const schema = context.outputSchema!;
+  const parsed = schema.safeParse(toolResult.result?.structuredContent);
+  if (parsed.success) return toolResult;
+  
+  if (policy === 'restore' && schema.safeParse(toolStructuredContent).success) {
+    return {
+      result: { ...toolResult.result, structuredContent: toolStructuredContent },
+      metadata: { ...toolResult.metadata, structuredContentRestored: true }
+    };
+  }
+  
+  throw new InvalidStructuredContentError(context.toolName, parsed.error.issues);
 }
 
 /**
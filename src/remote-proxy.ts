@@ -0,0 +1,500 @@
+/**
+ * @file Remote Proxy
+ * @version 1.1.0
+ *
+ * Puts the proxy pipeline in front of MCP servers running outside this
+ * process. Upstreams are reached as MCP clients over stdio or Streamable HTTP;
+ * their tools, resources and prompts are mirrored on a local McpServer
+ * wrapped with wrapWithProxy, so every forwarded call runs the same hooks and
+ * plugins as an in-process server. createGateway mounts several upstreams on
+ * one such server.
+ *
+ * Functionality:
+ * - Upstream connection over stdio, Streamable HTTP, a given transport or in-process
+ * - Mirroring of tools, resources, resource templates and prompts
+ * - Namespacing of mirrored names, with collisions resolved by suffixes
+ * - Re-mirroring on the upstream's list-changed notifications
+ * - Forwarding of cancellation and progress
+ * - Shutdown of the local server together with the upstream connections
+ */
+
+import { McpServer, RegisteredTool, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolResultSchema,
+  Implementation,
+  Prompt,
+  PromptListChangedNotificationSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ResourceTemplate as ResourceTemplateDefinition,
+  Tool,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { z, AnyZodObject } from 'zod';
+import { wrapWithProxy } from './proxy-wrapper.js';
+import { createLogger, Logger } from './utils/logger.js';
+import {
+  ProxyWrapperOptions,
+  ProxiedMcpServer,
+  RemoteProxyOptions,
+  RemoteUpstream,
+  RemoteUpstreamHandle,
+  RemoteProxiedMcpServer,
+  ShutdownOptions,
+  UpstreamContext
+} from './interfaces/proxy-hooks.js';
+
+/**
+ * An upstream connected as a client, and the prefix of its mirrored names
+ */
+export interface MountedUpstream {
+  name: string;
+  client: Client;
+  
+  /** Prepended to tool, prompt and resource template names; empty for none */
+  prefix: string;
+}
+
+/**
+ * A mirrored registration and the upstream definition it was made from
+ */
+interface Mirrored {
+  definition: string;
+  registration: { remove(): void };
+}
+
+/**
+ * Connect to an upstream MCP server and serve its tools, resources and prompts
+ * from a local, proxied McpServer
+ * @param options Upstream to connect to, plus the usual proxy wrapper options
+ * @returns The local server, not yet connected to a transport
+ */
+export async function createRemoteProxy(options: RemoteProxyOptions): Promise<RemoteProxiedMcpServer> {
+  const logger = createLogger({
+    level: options.debug ? 'debug' : 'info',
+    prefix: 'MCP-REMOTE-PROXY'
+  });
+  
+  const client = await connectUpstream(options.upstream);
+  const upstreamInfo = client.getServerVersion();
+  logger.info(`Connected to upstream server ${upstreamInfo?.name ?? 'unknown'}`);
+  
+  const { server, handles } = await createMirrorServer(
+    options,
+    {
+      name: options.name ?? upstreamInfo?.name ?? 'mcp-remote-proxy',
+      version: options.version ?? upstreamInfo?.version ?? '1.0.0'
+    },
+    [{ name: upstreamInfo?.name ?? 'upstream', client, prefix: '' }],
+    logger,
+    client.getInstructions()
+  );
+  
+  const remoteServer = server as RemoteProxiedMcpServer;
+  remoteServer.upstream = handles[0];
+  
+  return remoteServer;
+}
+
+/**
+ * Connect a client to an upstream, starting it in-process when it is a server
+ */
+export async function connectUpstream(upstream: RemoteUpstream | { server: McpServer }): Promise<Client> {
+  const client = new Client({ name: 'mcp-proxy-wrapper', version: '1.0.0' }, { capabilities: {} });
+  
+  if ('server' in upstream) {
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await upstream.server.connect(serverTransport);
+    await client.connect(clientTransport);
+  } else {
+    await client.connect(await createUpstreamTransport(upstream));
+  }
+  
+  return client;
+}
+
+/**
+ * Create a proxied McpServer mirroring every given upstream. Shutting the
+ * server down through its proxy handle also closes the upstream clients, and
+ * so does a failure to create it, such as a plugin failing to initialize.
+ * @returns The server and one handle per upstream, in the given order
+ */
+export async function createMirrorServer(
+  options: ProxyWrapperOptions,
+  serverInfo: Implementation,
+  upstreams: MountedUpstream[],
+  logger: Logger,
+  instructions?: string
+): Promise<{ server: ProxiedMcpServer; handles: RemoteUpstreamHandle[] }> {
+  try {
+    return await mirrorUpstreams(options, serverInfo, upstreams, logger, instructions);
+  } catch (error) {
+    await Promise.all(upstreams.map(upstream => upstream.client.close()));
+    throw error;
+  }
+}
+
+/**
+ * Build the mirror server; createMirrorServer closes the upstreams if this throws
+ */
+async function mirrorUpstreams(
+  options: ProxyWrapperOptions,
+  serverInfo: Implementation,
+  upstreams: MountedUpstream[],
+  logger: Logger,
+  instructions?: string
+): Promise<{ server: ProxiedMcpServer; handles: RemoteUpstreamHandle[] }> {
+  const capabilities = upstreams.map(upstream => upstream.client.getServerCapabilities() ?? {});
+  const server = new McpServer(serverInfo, { instructions });
+  
+  // The SDK registers its request handlers, and with them the server's
+  // capabilities, on the first registration of each kind. Capabilities cannot
+  // change once a transport is connected, so the handlers for everything the
+  // upstreams offer are set up now, even if their lists are still empty.
+  const registry = server as any;
+  if (capabilities.some(c => c.tools)) registry.setToolRequestHandlers();
+  if (capabilities.some(c => c.resources)) registry.setResourceRequestHandlers();
+  if (capabilities.some(c => c.prompts)) registry.setPromptRequestHandlers();
+  
+  // Upstream tools are registered without a local schema of their own, so
+  // listings and calls are adjusted to carry the upstream's
+  const upstreamTools = new Map<string, Tool>();
+  if (capabilities.some(c => c.tools)) {
+    const handlers: Map<string, (...args: any[]) => Promise<any>> = registry.server._requestHandlers;
+    
+    const listTools = handlers.get('tools/list')!;
+    handlers.set('tools/list', async (...args: any[]) => {
+      const result = await listTools(...args);
+      return {
+        ...result,
+        tools: result.tools.map((tool: Tool) => {
+          const upstreamTool = upstreamTools.get(tool.name);
+          return upstreamTool
+            ? { ...tool, inputSchema: upstreamTool.inputSchema, outputSchema: upstreamTool.outputSchema }
+            : tool;
+        })
+      };
+    });
+    
+    const callTool = handlers.get('tools/call')!;
+    handlers.set('tools/call', async (request: any, ...rest: any[]) => callTool(
+      upstreamTools.has(request.params.name)
+        ? { ...request, params: { ...request.params, arguments: request.params.arguments ?? {} } }
+        : request,
+      ...rest
+    ));
+  }
+  
+  // The wrapper reads this map on every call, so mirrored tools are added to it as they come and go
+  const toolUpstreams: Record<string, UpstreamContext> = { ...options.toolUpstreams };
+  const proxiedServer = await wrapWithProxy(server, { ...options, toolUpstreams });
+  
+  const toolNames = new LocalNames('tool', logger);
+  const promptNames = new LocalNames('prompt', logger);
+  const templateNames = new LocalNames('resource template', logger);
+  
+  const handles = upstreams.map((upstream, index) => mountUpstream(upstream, capabilities[index]));
+  
+  /**
+   * Mirror one upstream and follow its list changes
+   */
+  function mountUpstream(upstream: MountedUpstream, upstreamCapabilities: typeof capabilities[number]): RemoteUpstreamHandle {
+    const { client, prefix } = upstream;
+    const owner = upstream.name;
+    
+    const mirroredTools = new Map<string, Mirrored>();
+    const mirroredResources = new Map<string, Mirrored>();
+    const mirroredTemplates = new Map<string, Mirrored>();
+    const mirroredPrompts = new Map<string, Mirrored>();
+    
+    const mirrorTool = (tool: Tool) => {
+      const name = toolNames.claim(prefix + tool.name, owner);
+      upstreamTools.set(name, tool);
+      toolUpstreams[name] = { name: upstream.name, toolName: tool.name };
+      
+      const callUpstream = (async (args: Record<string, unknown>, extra: any) => {
+        const progressToken = extra._meta?.progressToken;
+        
+        return client.callTool({ name: tool.name, arguments: args }, CallToolResultSchema, {
+          signal: extra.signal,
+          resetTimeoutOnProgress: true,
+          onprogress: progressToken === undefined ? undefined : progress => extra.sendNotification({
+            method: 'notifications/progress',
+            params: { ...progress, progressToken }
+          })
+        });
+      }) as any;
+      
+      // SDK releases without registerTool only offer tool(), which cannot list annotations
+      const registered: RegisteredTool = typeof proxiedServer.registerTool === 'function'
+        ? proxiedServer.registerTool(name, { description: tool.description, annotations: tool.annotations }, callUpstream)
+        : (proxiedServer as any).tool(name, ...(tool.description === undefined ? [] : [tool.description]), callUpstream);
+      // Set after registration so that calls receive the arguments, and hooks the annotations
+      registered.inputSchema = argumentsSchema(tool);
+      registered.annotations ??= tool.annotations;
+      
+      return {
+        remove: () => {
+          registered.remove();
+          upstreamTools.delete(name);
+          delete toolUpstreams[name];
+          toolNames.release(name);
+        }
+      };
+    };
+    
+    const mirrorResource = (resource: Resource) => {
+      const { uri, name, ...metadata } = resource;
+      if (registry._registeredResources?.[uri]) {
+        logger.warn(`Resource ${uri} of ${owner} is already served by another upstream; skipping it`);
+        return { remove: () => {} };
+      }
+      
+      return proxiedServer.resource(name, uri, metadata, async (_uri, extra) =>
+        client.readResource({ uri }, { signal: extra.signal })
+      );
+    };
+    
+    const mirrorTemplate = (template: ResourceTemplateDefinition) => {
+      const { uriTemplate, name: templateName, ...metadata } = template;
+      const name = templateNames.claim(prefix + templateName, owner);
+      
+      const registered = proxiedServer.resource(
+        name,
+        new ResourceTemplate(uriTemplate, { list: undefined }),
+        metadata,
+        async (uri, _variables, extra) => client.readResource({ uri: uri.href }, { signal: extra.signal })
+      );
+      
+      return {
+        remove: () => {
+          registered.remove();
+          templateNames.release(name);
+        }
+      };
+    };
+    
+    const mirrorPrompt = (prompt: Prompt) => {
+      const name = promptNames.claim(prefix + prompt.name, owner);
+      
+      const forward = async (...callbackArgs: any[]) => {
+        const extra = callbackArgs[callbackArgs.length - 1];
+        const args = callbackArgs.length > 1 ? callbackArgs[0] : undefined;
+        return client.getPrompt({ name: prompt.name, arguments: args }, { signal: extra.signal });
+      };
+      
+      const shape = Object.fromEntries((prompt.arguments ?? []).map(argument => {
+        const schema = argument.description ? z.string().describe(argument.description) : z.string();
+        return [argument.name, argument.required ? schema : schema.optional()];
+      }));
+      
+      const registered = (proxiedServer.prompt as (...args: any[]) => { remove(): void })(
+        name,
+        ...(prompt.description !== undefined ? [prompt.description] : []),
+        ...(prompt.arguments?.length ? [shape] : []),
+        forward
+      );
+      
+      return {
+        remove: () => {
+          registered.remove();
+          promptNames.release(name);
+        }
+      };
+    };
+    
+    const syncTools = async () => {
+      const tools = await listAll(async cursor => {
+        const result = await client.listTools({ cursor });
+        return { items: result.tools, nextCursor: result.nextCursor };
+      });
+      mirror(mirroredTools, tools, tool => tool.name, mirrorTool);
+    };
+    
+    const syncResources = async () => {
+      const resources = await listAll(async cursor => {
+        const result = await client.listResources({ cursor });
+        return { items: result.resources, nextCursor: result.nextCursor };
+      });
+      const templates = await listAll(async cursor => {
+        const result = await client.listResourceTemplates({ cursor });
+        return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+      });
+      mirror(mirroredResources, resources, resource => resource.uri, mirrorResource);
+      mirror(mirroredTemplates, templates, template => template.name, mirrorTemplate);
+    };
+    
+    const syncPrompts = async () => {
+      const prompts = await listAll(async cursor => {
+        const result = await client.listPrompts({ cursor });
+        return { items: result.prompts, nextCursor: result.nextCursor };
+      });
+      mirror(mirroredPrompts, prompts, prompt => prompt.name, mirrorPrompt);
+    };
+    
+    /**
+     * Re-mirror one kind of entry when the upstream reports a change. Syncs of
+     * the same kind run one after another so an older listing never wins.
+     */
+    const serialized = (kind: string, sync: () => Promise<void>) => {
+      let pending = Promise.resolve();
+      return () => {
+        const run = pending.then(sync);
+        pending = run.catch(error => {
+          logger.error(`Failed to mirror the ${kind} of ${owner}:`, error);
+        });
+        return run;
+      };
+    };
+    
+    const refreshTools = serialized('tools', syncTools);
+    const refreshResources = serialized('resources', syncResources);
+    const refreshPrompts = serialized('prompts', syncPrompts);
+    
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => refreshTools().catch(() => {}));
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => refreshResources().catch(() => {}));
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => refreshPrompts().catch(() => {}));
+    client.onclose = () => logger.warn(`Connection to ${owner} closed`);
+    
+    const refresh = async (): Promise<void> => {
+      await Promise.all([
+        upstreamCapabilities.tools && refreshTools(),
+        upstreamCapabilities.resources && refreshResources(),
+        upstreamCapabilities.prompts && refreshPrompts()
+      ]);
+      logger.debug(`Mirroring ${mirroredTools.size} tool(s), ${mirroredResources.size + mirroredTemplates.size} resource(s) and ${mirroredPrompts.size} prompt(s) of ${owner}`);
+    };
+    
+    return { client, refresh };
+  }
+  
+  // Mirror in mount order, so earlier upstreams keep their names on collisions
+  for (const handle of handles) {
+    await handle.refresh();
+  }
+  
+  // Close the upstream connections once the local server has shut down
+  const shutdown = proxiedServer.proxy.shutdown;
+  let closePromise: Promise<void> | null = null;
+  proxiedServer.proxy.shutdown = (shutdownOptions?: ShutdownOptions) => {
+    closePromise ??= shutdown(shutdownOptions).then(async () => {
+      await Promise.all(upstreams.map(upstream => upstream.client.close()));
+    });
+    return closePromise;
+  };
+  
+  return { server: proxiedServer, handles };
+}
+
+/**
+ * Local names of one kind of mirrored entry and the upstream owning each.
+ * A name already owned by another upstream gets the first free `_2`, `_3`, ... suffix.
+ */
+class LocalNames {
+  private owners = new Map<string, string>();
+  
+  constructor(private kind: string, private logger: Logger) {}
+  
+  claim(requested: string, owner: string): string {
+    let name = requested;
+    for (let suffix = 2; this.owners.has(name) && this.owners.get(name) !== owner; suffix++) {
+      name = `${requested}_${suffix}`;
+    }
+    
+    if (name !== requested) {
+      this.logger.warn(`${this.kind} '${requested}' of ${owner} collides with ${this.owners.get(requested)}; mounted as '${name}'`);
+    }
+    this.owners.set(name, owner);
+    return name;
+  }
+  
+  release(name: string): void {
+    this.owners.delete(name);
+  }
+}
+
+/**
+ * Client transport for a remote upstream. The Streamable HTTP transport is
+ * loaded on demand, since SDK releases before 1.10 do not have it.
+ */
+async function createUpstreamTransport(upstream: RemoteUpstream): Promise<Transport> {
+  if ('transport' in upstream) {
+    return upstream.transport;
+  }
+  
+  if ('command' in upstream) {
+    return new StdioClientTransport({
+      command: upstream.command,
+      args: upstream.args,
+      env: upstream.env,
+      cwd: upstream.cwd
+    });
+  }
+  
+  const { StreamableHTTPClientTransport } = await import('@modelcontextprotocol/sdk/client/streamableHttp.js');
+  return new StreamableHTTPClientTransport(new URL(upstream.url), { requestInit: upstream.requestInit });
+}
+
+/**
+ * Local schema for an upstream tool's arguments. Validation is left to the
+ * upstream, so every property is accepted as-is; the shape only lists the
+ * properties for hooks that inspect `context.toolSchema`.
+ */
+function argumentsSchema(tool: Tool): AnyZodObject {
+  const properties = Object.keys(tool.inputSchema.properties ?? {});
+  return z.object(Object.fromEntries(properties.map(property => [property, z.any()]))).passthrough();
+}
+
+/**
+ * Collect every page of a paginated list
+ */
+async function listAll<T>(
+  fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  
+  return items;
+}
+
+/**
+ * Bring mirrored registrations in line with the upstream's current list:
+ * register new entries, re-register changed ones and remove the rest
+ */
+function mirror<T>(
+  mirrored: Map<string, Mirrored>,
+  items: T[],
+  keyOf: (item: T) => string,
+  register: (item: T) => { remove(): void }
+): void {
+  const current = new Set<string>();
+  
+  for (const item of items) {
+    const key = keyOf(item);
+    const definition = JSON.stringify(item);
+    current.add(key);
+    
+    const existing = mirrored.get(key);
+    if (existing?.definition === definition) continue;
+    
+    existing?.registration.remove();
+    mirrored.set(key, { definition, registration: register(item) });
+  }
+  
+  for (const [key, { registration }] of mirrored) {
+    if (!current.has(key)) {
+      registration.remove();
+      mirrored.delete(key);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @file Circuit Breaker
+ * @version 1.0.0
+ * 
+ * Per-plugin circuit breaker used by the plugin manager. A plugin whose hooks
+ * keep failing is taken out of the call path for a cool-down period, then
+ * probed with a limited number of calls before being trusted again.
+ * 
+ * States:
+ * - closed: hooks run normally; consecutive failures are counted
+ * - open: hooks are skipped until the reset timeout elapses
+ * - half-open: a limited number of probe calls decide whether to close or re-open
+ */
+
+import { CircuitBreakerConfig, CircuitState } from '../interfaces/plugin.js';
+
+/**
+ * Default circuit breaker settings
+ */
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+  halfOpenMaxCalls: 1
+};
+
+/**
+ * Circuit breaker tracking the health of a single plugin
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private config: Required<CircuitBreakerConfig>;
+  
+  constructor(
+    config: CircuitBreakerConfig = {},
+    private onStateChange?: (state: CircuitState) => void
+  ) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+  
+  /**
+   * Check whether a call may go through, moving an expired open circuit to half-open.
+   * In half-open state each admitted call takes one of the limited probe slots.
+   */
+  canExecute(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.config.resetTimeout) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+    
+    if (this.state === 'half-open') {
+      if (this.halfOpenCalls >= this.config.halfOpenMaxCalls) {
+        return false;
+      }
+      this.halfOpenCalls++;
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Record a successful call; a successful probe closes the circuit
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+  
+  /**
+   * Record a failed call; a failed probe or reaching the threshold opens the circuit
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+  
+  /**
+   * Current circuit state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+  
+  /**
+   * Milliseconds until an open circuit admits a probe call; 0 when not open
+   */
+  getRetryDelay(): number {
+    return this.state === 'open' ? Math.max(0, this.openedAt + this.config.resetTimeout - Date.now()) : 0;
+  }
+  
+  /**
+   * Number of failures since the last success
+   */
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+  
+  /**
+   * Force the circuit closed, e.g. after an operator intervention
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+  
+  private transition(state: CircuitState): void {
+    if (this.state === state) {
+      // E.g. a late failure from a call admitted before the circuit opened
+      this.halfOpenCalls = 0;
+      return;
+    }
+    
+    this.state = state;
+    this.halfOpenCalls = 0;
+    this.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @file Content Parts
+ * @version 1.0.0
+ *
+ * Part-by-part access to the content of tool results, so plugins can inspect,
+ * redact or truncate large outputs one item at a time instead of joining or
+ * reserializing the whole payload. Sizes are computed per part from the data
+ * already in memory: UTF-8 bytes for text and decoded bytes for base64 data.
+ */
+
+import { ToolCallResult } from '../interfaces/proxy-hooks.js';
+
+/**
+ * Content item types defined by MCP
+ */
+export type ContentPartType = 'text' | 'image' | 'audio' | 'resource' | 'resource_link';
+
+/**
+ * A single item of a tool result's content array
+ */
+export interface ContentPart {
+  type: ContentPartType | string;
+  [key: string]: any;
+}
+
+/**
+ * Where a part sits in its result
+ */
+export interface ContentPartInfo {
+  /** Position in the content array */
+  index: number;
+  
+  /** Payload bytes of this part */
+  size: number;
+  
+  /** Payload bytes of the parts before this one */
+  offset: number;
+  
+  /** Number of parts in the content array */
+  count: number;
+}
+
+/**
+ * Size accounting for a whole result
+ */
+export interface ContentSize {
+  /** Number of parts */
+  parts: number;
+  
+  /** Payload bytes of all parts */
+  bytes: number;
+  
+  /** Characters in text parts */
+  textLength: number;
+  
+  /** Payload bytes by part type */
+  byType: Record<string, number>;
+}
+
+/**
+ * What a transform does with a part: undefined keeps it, null drops it,
+ * and a part or list of parts replaces it
+ */
+export type ContentPartReplacement = ContentPart | ContentPart[] | null | undefined;
+
+/**
+ * Called for each part in turn by transformContent
+ */
+export type ContentPartTransform = (
+  part: ContentPart,
+  info: ContentPartInfo
+) => ContentPartReplacement | Promise<ContentPartReplacement>;
+
+/**
+ * Payload bytes of a part: UTF-8 text, decoded image and audio data, the text
+ * or blob of embedded resources. Resource links carry no payload and count as 0.
+ */
+export function contentPartSize(part: ContentPart): number {
+  switch (part.type) {
+    case 'text':
+      return utf8Bytes(part.text);
+    case 'image':
+    case 'audio':
+      return base64Bytes(part.data);
+    case 'resource':
+      return part.resource?.blob !== undefined
+        ? base64Bytes(part.resource.blob)
+        : utf8Bytes(part.resource?.text);
+    case 'resource_link':
+      return 0;
+    default:
+      return utf8Bytes(JSON.stringify(part));
+  }
+}
+
+/**
+ * Iterate over a result's content parts with their sizes and positions
+ */
+export function* contentParts(result: ToolCallResult): Generator<[ContentPart, ContentPartInfo]> {
+  const content = getContent(result);
+  let offset = 0;
+  
+  for (let index = 0; index < content.length; index++) {
+    const part = content[index];
+    const size = contentPartSize(part);
+    yield [part, { index, size, offset, count: content.length }];
+    offset += size;
+  }
+}
+
+/**
+ * Measure a result's content without serializing it
+ */
+export function measureContent(result: ToolCallResult): ContentSize {
+  const size: ContentSize = { parts: 0, bytes: 0, textLength: 0, byType: {} };
+  
+  for (const [part, info] of contentParts(result)) {
+    size.parts++;
+    size.bytes += info.size;
+    size.byType[part.type] = (size.byType[part.type] ?? 0) + info.size;
+    if (part.type === 'text' && typeof part.text === 'string') {
+      size.textLength += part.text.length;
+    }
+  }
+  
+  return size;
+}
+
+/**
+ * Text of the result's text parts, one part at a time
+ */
+export function* textParts(result: ToolCallResult): Generator<string> {
+  for (const [part] of contentParts(result)) {
+    if (part.type === 'text' && typeof part.text === 'string') {
+      yield part.text;
+    }
+  }
+}
+
+/**
+ * Run a transform over each part in turn and return a result with the
+ * rewritten content. The original result is returned as-is when every part
+ * is kept; otherwise it is left untouched and a copy is returned.
+ */
+export async function transformContent(
+  result: ToolCallResult,
+  transform: ContentPartTransform
+): Promise<ToolCallResult> {
+  const content: ContentPart[] = [];
+  let changed = false;
+  
+  for (const [part, info] of contentParts(result)) {
+    const replacement = await transform(part, info);
+    
+    if (replacement === undefined) {
+      content.push(part);
+    } else {
+      changed = true;
+      if (replacement !== null) {
+        content.push(...(Array.isArray(replacement) ? replacement : [replacement]));
+      }
+    }
+  }
+  
+  if (!changed) return result;
+  
+  return {
+    ...result,
+    result: {
+      ...result.result,
+      content
+    }
+  };
+}
+
+function getContent(result: ToolCallResult): ContentPart[] {
+  const content = result.result?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+function utf8Bytes(text: unknown): number {
+  return typeof text === 'string' ? Buffer.byteLength(text, 'utf8') : 0;
+}
+
+function base64Bytes(data: unknown): number {
+  if (typeof data !== 'string' || data.length === 0) return 0;
+  
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
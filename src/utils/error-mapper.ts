@@ -0,0 +1,140 @@
+/**
+ * @file Error Mapper
+ * @version 1.0.0
+ *
+ * Turns errors raised while serving a request into MCP error shapes that keep
+ * their codes: a tool result with isError set and details in _meta, or a
+ * JSON-RPC error. Mappings supplied by the wrapper options and by plugins are
+ * consulted first; PluginError and McpError have built-in mappings.
+ *
+ * Errors re-thrown with a `cause` (e.g. "Plugin error: ...") are mapped by
+ * the first error in the cause chain that a mapping recognises, while the
+ * message shown to the client stays that of the outermost error.
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorMapping, MappedError, McpErrorShape } from '../interfaces/proxy-hooks.js';
+import { PluginError, PluginUnavailableError } from '../interfaces/plugin.js';
+
+/**
+ * Mapped error with every field the response needs resolved
+ */
+export interface ResolvedError extends MappedError {
+  shape: McpErrorShape;
+  message: string;
+}
+
+/**
+ * Built-in mappings, consulted after the configured ones
+ */
+const DEFAULT_ERROR_MAPPINGS: ErrorMapping[] = [
+  {
+    errorType: PluginUnavailableError,
+    map: error => ({
+      code: (error as PluginUnavailableError).code,
+      statusCode: (error as PluginUnavailableError).statusCode,
+      retryAfter: (error as PluginUnavailableError).retryAfter
+    })
+  },
+  {
+    errorType: PluginError,
+    map: error => ({
+      code: (error as PluginError).code,
+      statusCode: (error as PluginError).statusCode
+    })
+  },
+  {
+    errorType: McpError,
+    map: error => ({
+      code: 'MCP_ERROR',
+      jsonRpcCode: (error as McpError).code,
+      data: (error as McpError).data as Record<string, any> | undefined
+    })
+  }
+];
+
+/**
+ * Resolves errors against an ordered list of mappings
+ */
+export class ErrorMapper {
+  constructor(
+    private getMappings: () => ErrorMapping[],
+    private defaultShape: McpErrorShape = 'result'
+  ) {}
+  
+  /**
+   * Describe an error using the first mapping that accepts it
+   */
+  map(error: unknown): ResolvedError {
+    const outer = error instanceof Error ? error : new Error(String(error));
+    const mapped = this.findMapping(outer) ?? { code: 'INTERNAL_ERROR' };
+    
+    return {
+      ...mapped,
+      shape: mapped.shape ?? this.defaultShape,
+      message: mapped.message ?? outer.message
+    };
+  }
+  
+  /**
+   * Build an isError tool result carrying the error details in _meta
+   */
+  toToolResult(mapped: ResolvedError): Record<string, any> {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${mapped.message}`
+        }
+      ],
+      _meta: errorDetails(mapped)
+    };
+  }
+  
+  /**
+   * Build a JSON-RPC error carrying the error details as its data.
+   * SDK 1.12 sends only the code and message of errors raised by request
+   * handlers, so clients on it see the JSON-RPC code but not the data.
+   */
+  toMcpError(mapped: ResolvedError): McpError {
+    return new McpError(
+      mapped.jsonRpcCode ?? ErrorCode.InternalError,
+      mapped.message,
+      errorDetails(mapped)
+    );
+  }
+  
+  private findMapping(outer: Error): MappedError | undefined {
+    const mappings = [...this.getMappings(), ...DEFAULT_ERROR_MAPPINGS];
+    const seen = new Set<unknown>();
+    
+    for (let current: unknown = outer; current instanceof Error && !seen.has(current); current = current.cause) {
+      seen.add(current);
+      
+      for (const mapping of mappings) {
+        if (mapping.errorType && !(current instanceof mapping.errorType)) continue;
+        
+        const mapped = mapping.map(current);
+        if (mapped) return mapped;
+      }
+    }
+    
+    return undefined;
+  }
+}
+
+/**
+ * Structured details sent to the client, without unset fields
+ */
+function errorDetails(mapped: ResolvedError): Record<string, any> {
+  const details: Record<string, any> = {
+    code: mapped.code,
+    statusCode: mapped.statusCode,
+    retryAfter: mapped.retryAfter,
+    upgradeUrl: mapped.upgradeUrl,
+    ...mapped.data
+  };
+  
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,107 @@
+/**
+ * @file Observer Queue
+ * @version 1.0.0
+ *
+ * Runs observer plugin work off the response path. At most `concurrency`
+ * tasks run at once and at most `maxQueued` wait; once the queue is full,
+ * enqueue() waits for a free slot, so a burst of calls slows down instead
+ * of piling up unbounded work.
+ */
+
+/**
+ * Observer queue limits
+ */
+export interface ObserverQueueOptions {
+  /** Tasks running at the same time (default: 4) */
+  concurrency?: number;
+  
+  /** Tasks waiting to run before enqueue() waits (default: 1000) */
+  maxQueued?: number;
+}
+
+/**
+ * Current queue load
+ */
+export interface ObserverQueueStats {
+  queued: number;
+  running: number;
+}
+
+interface QueuedTask {
+  key: string;
+  task: () => Promise<void>;
+}
+
+/**
+ * Bounded, concurrency-limited queue of fire-and-forget tasks, grouped by key
+ */
+export class ObserverQueue {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  /** Queued plus running tasks per key */
+  private pending = new Map<string, number>();
+  private spaceWaiters: Array<() => void> = [];
+  private idleWaiters: Array<() => void> = [];
+  private concurrency: number;
+  private maxQueued: number;
+  
+  constructor(options: ObserverQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.maxQueued = Math.max(1, options.maxQueued ?? 1000);
+  }
+  
+  /**
+   * Queue a task. Resolves once the task is queued, not when it has run;
+   * waits while the queue is full. Tasks are expected to handle their own errors.
+   */
+  async enqueue(key: string, task: () => Promise<void>): Promise<void> {
+    while (this.queue.length >= this.maxQueued) {
+      await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+    }
+    
+    this.queue.push({ key, task });
+    this.pending.set(key, (this.pending.get(key) ?? 0) + 1);
+    this.pump();
+  }
+  
+  /**
+   * Wait until no tasks are queued or running, for one key or for all
+   */
+  async settled(key?: string): Promise<void> {
+    while (key === undefined ? this.pending.size > 0 : this.pending.has(key)) {
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+    }
+  }
+  
+  getStats(): ObserverQueueStats {
+    return {
+      queued: this.queue.length,
+      running: this.running
+    };
+  }
+  
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const { key, task } = this.queue.shift()!;
+      this.spaceWaiters.shift()?.();
+      this.running++;
+      
+      task()
+        .catch(() => undefined)
+        .finally(() => {
+          this.running--;
+          
+          const remaining = this.pending.get(key)! - 1;
+          if (remaining > 0) {
+            this.pending.set(key, remaining);
+          } else {
+            this.pending.delete(key);
+          }
+          
+          // Waiters re-check their own condition
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+          this.pump();
+        });
+    }
+  }
+}
@@ -6,19 +6,46 @@
  * health checks, and lifecycle management for the MCP Proxy Wrapper.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { EventEmitter } from 'events';
 import { 
   ProxyPlugin, 
   PluginManager, 
   PluginConfig, 
   PluginContext, 
+  PluginCallState,
+  ResourcePluginContext,
+  PromptPluginContext,
+  ToolListPluginContext,
   PluginInitContext,
+  PluginConfigUpdate,
   PluginError,
+  PluginErrorInfo,
+  PluginErrorSeverity,
+  PluginTimeoutError,
+  PluginUnavailableError,
   PluginStats,
-  PluginPhase
+  PluginPhase,
+  CircuitState
 } from '../interfaces/plugin.js';
-import { ToolCallContext, ToolCallResult } from '../interfaces/proxy-hooks.js';
+import {
+  ToolCallContext,
+  ToolCallResult,
+  ResourceReadContext,
+  ResourceReadResult,
+  PromptGetContext,
+  PromptGetResult,
+  ToolListContext,
+  ToolListResult,
+  ProgressUpdate
+} from '../interfaces/proxy-hooks.js';
 import { createLogger } from './logger.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { isToolSelected } from './tool-matcher.js';
+import { satisfies } from './semver.js';
+import { validateToolArgs } from './tool-args.js';
+import { ObserverQueue, ObserverQueueStats } from './observer-queue.js';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Default plugin configuration
@@ -29,9 +56,20 @@ const DEFAULT_PLUGIN_CONFIG: Required<PluginConfig> = {
   options: {},
   includeTools: [],
   excludeTools: [],
-  debug: false
+  debug: false,
+  failureMode: 'fail-open',
+  circuitBreaker: {},
+  timeouts: {}
 };
 
+/**
+ * A dependency as declared in plugin metadata: 'auth' or 'auth@^1.2.0'
+ */
+interface DependencySpec {
+  name: string;
+  range?: string;
+}
+
 /**
  * Plugin registration entry
  */
@@ -39,8 +77,13 @@ interface PluginEntry {
   plugin: ProxyPlugin;
   config: Required<PluginConfig>;
   initialized: boolean;
+  /** Outcome of the most recent hook or health check; reported, not used for gating */
   healthy: boolean;
   lastHealthCheck: number;
+  /** Decides whether the plugin's hooks run for a given call */
+  breaker: CircuitBreaker;
+  /** Set while draining: only calls up to this sequence number still use the plugin */
+  drainAfter?: number;
 }
 
 /**
@@ -52,11 +95,27 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
   private healthCheckInterval?: NodeJS.Timeout;
   private wrapperVersion: string;
   private globalConfig: Record<string, any>;
+  private allInitialized = false;
+  /** Sequence number of each call context, used to let started calls finish with a draining plugin */
+  private callSequences = new WeakMap<object, number>();
+  private callSequence = 0;
+  /** Controls the signal of each call context */
+  private callControllers = new WeakMap<object, AbortController>();
+  /** Signal of the hook invocation running, which `context.signal` returns inside hooks */
+  private hookSignals = new AsyncLocalStorage<AbortSignal>();
+  /** Last progress value sent for each call context */
+  private lastProgress = new WeakMap<object, number>();
+  /** After hooks of observer plugins, run off the response path */
+  private observers: ObserverQueue;
   
   constructor(wrapperVersion: string, globalConfig: Record<string, any> = {}) {
     super();
     this.wrapperVersion = wrapperVersion;
     this.globalConfig = globalConfig;
+    this.observers = new ObserverQueue({
+      concurrency: globalConfig.observerConcurrency,
+      maxQueued: globalConfig.observerQueueSize
+    });
   }
   
   /**
@@ -89,16 +148,76 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
       config: finalConfig,
       initialized: false,
       healthy: true,
-      lastHealthCheck: Date.now()
+      lastHealthCheck: Date.now(),
+      breaker: new CircuitBreaker(finalConfig.circuitBreaker, state => {
+        this.logger.warn(`Plugin ${plugin.name} circuit is now ${state}`);
+        this.emit('plugin:circuit', { pluginName: plugin.name, state });
+      })
     };
     
     this.plugins.set(plugin.name, entry);
+    
+    // Plugins added after initializeAll() are initialized right away
+    if (this.allInitialized) {
+      try {
+        await this.validateDependencies();
+        if (finalConfig.enabled) {
+          await this.initializePlugin(entry);
+        }
+      } catch (error) {
+        this.plugins.delete(plugin.name);
+        throw error;
+      }
+    }
+    
     this.logger.info(`Registered plugin: ${plugin.name} v${plugin.version}`);
     
     // Emit event
     this.emit('plugin:registered', { plugin });
   }
   
+  /**
+   * Change a registered plugin's configuration at runtime. The new settings
+   * replace the old ones in a single step, so a call never sees a mix of both.
+   * Enabling a plugin that was never initialized initializes it first.
+   */
+  async configure(pluginName: string, changes: PluginConfigUpdate): Promise<void> {
+    const entry = this.plugins.get(pluginName);
+    if (!entry) {
+      throw new Error(`Plugin '${pluginName}' is not registered`);
+    }
+    
+    const config: Required<PluginConfig> = {
+      ...entry.config,
+      ...changes
+    };
+    
+    if (this.allInitialized && config.enabled && !entry.initialized) {
+      await this.initializePlugin(entry);
+    }
+    
+    entry.config = config;
+    entry.plugin.updateConfig?.(changes);
+    this.logger.info(`Reconfigured plugin: ${pluginName}`);
+    
+    this.emit('plugin:configured', { pluginName, config });
+  }
+  
+  /**
+   * Stop routing new calls to a plugin. Calls whose context was created before
+   * draining started keep running the plugin's hooks; unregister the plugin
+   * once they have finished.
+   */
+  drain(pluginName: string): void {
+    const entry = this.plugins.get(pluginName);
+    if (!entry) {
+      throw new Error(`Plugin '${pluginName}' is not registered`);
+    }
+    
+    entry.drainAfter ??= this.callSequence;
+    this.logger.info(`Draining plugin: ${pluginName}`);
+  }
+  
   /**
    * Unregister a plugin
    */
@@ -108,6 +227,9 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
       throw new Error(`Plugin '${pluginName}' is not registered`);
     }
     
+    // Let queued observer work finish before the plugin is torn down
+    await this.observers.settled(pluginName);
+    
     // Call destroy hook if available
     if (entry.plugin.destroy) {
       try {
@@ -154,161 +276,412 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
       const entry = this.plugins.get(plugin.name)!;
       
       if (entry.config.enabled && !entry.initialized) {
-        try {
-          const initContext: PluginInitContext = {
-            wrapperVersion: this.wrapperVersion,
-            loadedPlugins,
-            globalConfig: this.globalConfig,
-            logger: {
-              debug: (msg, ...args) => this.logger.debug(`[${plugin.name}] ${msg}`, ...args),
-              info: (msg, ...args) => this.logger.info(`[${plugin.name}] ${msg}`, ...args),
-              warn: (msg, ...args) => this.logger.warn(`[${plugin.name}] ${msg}`, ...args),
-              error: (msg, ...args) => this.logger.error(`[${plugin.name}] ${msg}`, ...args)
-            }
-          };
-          
-          if (plugin.initialize) {
-            await this.executeWithTimeout(
-              () => plugin.initialize!(initContext),
-              this.globalConfig.defaultTimeout || 30000,
-              `Plugin ${plugin.name} initialization`
-            );
-          }
-          
-          entry.initialized = true;
-          this.logger.info(`Initialized plugin: ${plugin.name}`);
-          
-        } catch (error) {
-          this.logger.error(`Failed to initialize plugin ${plugin.name}:`, error);
-          entry.healthy = false;
-          
-          const pluginError: PluginError = {
-            pluginName: plugin.name,
-            phase: 'initialize',
-            error: error as Error,
-            context: {} as PluginContext // No context during init
-          };
-          
-          this.emit('plugin:error', pluginError);
-          throw error;
-        }
+        await this.initializePlugin(entry, loadedPlugins);
       }
     }
     
     // Start health checks if enabled
-    if (this.globalConfig.enableHealthChecks) {
+    if (this.globalConfig.enableHealthChecks && !this.healthCheckInterval) {
       this.startHealthChecks();
     }
     
+    this.allInitialized = true;
     this.emit('plugins:initialized', { plugins: loadedPlugins });
   }
   
+  /**
+   * Create the per-call plugin context shared by every phase of one request.
+   * Pass the returned object to both the before and after hooks so that
+   * pluginData and previousResults survive between them.
+   */
+  createPluginContext<T extends object>(
+    context: T,
+    requestId?: string,
+    signal?: AbortSignal
+  ): T & Required<PluginCallState> {
+    const controller = this.createCallController(signal);
+    const pluginContext: T & Required<PluginCallState> = {
+      ...context,
+      pluginData: new Map(),
+      requestId: requestId || (context as { metadata?: Record<string, any> }).metadata?.requestId || uuidv4(),
+      startTime: Date.now(),
+      previousResults: new Map(),
+      reportProgress: (progress, total, message) =>
+        this.sendProgress(pluginContext, { progress, total, message, origin: 'plugin' }),
+      signal: controller.signal
+    };
+    this.defineCallSignal(pluginContext, controller.signal);
+    this.callSequences.set(pluginContext, ++this.callSequence);
+    this.callControllers.set(pluginContext, controller);
+    return pluginContext;
+  }
+  
+  /**
+   * Abort a call's signal, telling hooks and the tool still working on it to stop
+   */
+  abortCall(context: object, reason?: unknown): void {
+    this.callControllers.get(context)?.abort(reason);
+  }
+  
   /**
    * Execute beforeToolCall hooks for all plugins
    */
-  async executeBeforeHooks(context: ToolCallContext): Promise<void | ToolCallResult> {
-    const pluginContext = this.createPluginContext(context);
+  async executeBeforeHooks(context: ToolCallContext | PluginContext): Promise<void | ToolCallResult> {
+    const pluginContext = this.ensurePluginContext(context);
     this.emit('tool:before', pluginContext);
     
     const plugins = this.getExecutionOrder().filter(p => 
       this.plugins.get(p.name)?.config.enabled &&
-      this.shouldPluginProcessTool(p.name, context.toolName)
+      this.shouldPluginProcessTool(p.name, context.toolName, context.toolTags)
     );
     
     for (const plugin of plugins) {
+      if (!plugin.beforeToolCall || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      
       try {
-        if (plugin.beforeToolCall) {
-          const result = await this.executeWithTimeout(
-            () => plugin.beforeToolCall!(pluginContext),
-            this.globalConfig.defaultTimeout || 10000,
-            `Plugin ${plugin.name} beforeToolCall`
-          );
-          
-          if (result) {
-            this.logger.debug(`Plugin ${plugin.name} short-circuited tool call`);
-            return result;
-          }
+        const result = await this.executeWithTimeout(
+          () => plugin.beforeToolCall!(pluginContext),
+          this.getHookTimeout(plugin.name, 'beforeToolCall'),
+          `Plugin ${plugin.name} beforeToolCall`,
+          pluginContext
+        );
+        
+        if (result) {
+          this.recordPluginSuccess(plugin.name);
+          pluginContext.previousResults.set(plugin.name, result);
+          this.logger.debug(`Plugin ${plugin.name} short-circuited tool call`);
+          return result;
         }
+        
+        this.recordPluginSuccess(plugin.name);
+        pluginContext.previousResults.set(plugin.name, result);
       } catch (error) {
-        await this.handlePluginError(plugin.name, 'beforeToolCall', error as Error, pluginContext);
+        const { severity, recovery } = await this.handlePluginError(plugin.name, 'beforeToolCall', error as Error, pluginContext);
+        if (recovery) {
+          this.logger.debug(`Plugin ${plugin.name} recovered from its beforeToolCall error`);
+          return recovery;
+        }
         
-        // Continue with other plugins unless this was a critical error
-        if (this.isCriticalError(error as Error)) {
+        // Continue with other plugins unless this error must abort the call
+        if (severity === 'abort') {
+          this.abortCall(pluginContext, error);
           throw error;
         }
       }
+      
+      // Catch arguments the hook broke here, where the plugin can still be named.
+      // This is outside the try, so no failure mode or classifyError lets them through.
+      try {
+        validateToolArgs(pluginContext, plugin.name);
+      } catch (error) {
+        this.abortCall(pluginContext, error);
+        throw error;
+      }
     }
   }
   
   /**
    * Execute afterToolCall hooks for all plugins
    */
-  async executeAfterHooks(context: ToolCallContext, result: ToolCallResult): Promise<ToolCallResult> {
-    const pluginContext = this.createPluginContext(context);
+  async executeAfterHooks(
+    context: ToolCallContext | PluginContext,
+    result: ToolCallResult
+  ): Promise<ToolCallResult> {
+    const pluginContext = this.ensurePluginContext(context);
     let currentResult = result;
     
     const plugins = this.getExecutionOrder().filter(p => 
       this.plugins.get(p.name)?.config.enabled &&
-      this.shouldPluginProcessTool(p.name, context.toolName)
+      this.shouldPluginProcessTool(p.name, context.toolName, context.toolTags)
     );
     
     for (const plugin of plugins) {
+      if (plugin.kind === 'observer') continue;
+      if (!plugin.afterToolCall || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      
       try {
-        if (plugin.afterToolCall) {
-          currentResult = await this.executeWithTimeout(
-            () => plugin.afterToolCall!(pluginContext, currentResult),
-            this.globalConfig.defaultTimeout || 10000,
-            `Plugin ${plugin.name} afterToolCall`
-          );
-        }
+        currentResult = await this.executeWithTimeout(
+          () => plugin.afterToolCall!(pluginContext, currentResult),
+          this.getHookTimeout(plugin.name, 'afterToolCall'),
+          `Plugin ${plugin.name} afterToolCall`,
+          pluginContext
+        );
+        this.recordPluginSuccess(plugin.name);
+        pluginContext.previousResults.set(plugin.name, currentResult);
       } catch (error) {
-        await this.handlePluginError(plugin.name, 'afterToolCall', error as Error, pluginContext);
+        const { severity, recovery } = await this.handlePluginError(plugin.name, 'afterToolCall', error as Error, pluginContext);
+        if (recovery) {
+          currentResult = recovery;
+          continue;
+        }
         
-        // Continue with other plugins unless this was a critical error
-        if (this.isCriticalError(error as Error)) {
+        // Continue with other plugins unless this error must abort the call
+        if (severity === 'abort') {
+          this.abortCall(pluginContext, error);
           throw error;
         }
       }
     }
     
     this.emit('tool:after', { context: pluginContext, result: currentResult });
+    
+    await this.scheduleObservers(
+      'afterToolCall',
+      plugins,
+      pluginContext,
+      currentResult,
+      plugin => plugin.afterToolCall?.bind(plugin)
+    );
+    
     return currentResult;
   }
   
   /**
-   * Validate plugin dependencies
+   * Execute onToolError hooks after the wrapped tool handler threw.
+   * Plugins run in execution order and the first one that returns a
+   * result recovers the call; the rest are not consulted.
+   */
+  async executeToolErrorHooks(
+    context: ToolCallContext | PluginContext,
+    error: Error
+  ): Promise<void | ToolCallResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    const plugins = this.getExecutionOrder().filter(p => 
+      this.shouldPluginProcessTool(p.name, pluginContext.toolName, pluginContext.toolTags)
+    );
+    
+    for (const plugin of plugins) {
+      // The call is already failing; an open circuit here must not mask the tool error
+      if (!plugin.onToolError || !this.admitPlugin(plugin.name, pluginContext, false)) continue;
+      
+      try {
+        const recovery = await this.executeWithTimeout(
+          () => plugin.onToolError!(error, pluginContext),
+          this.getHookTimeout(plugin.name, 'onToolError'),
+          `Plugin ${plugin.name} onToolError`,
+          pluginContext
+        );
+        this.recordPluginSuccess(plugin.name);
+        pluginContext.previousResults.set(plugin.name, recovery);
+        
+        if (recovery) {
+          this.logger.info(`Plugin ${plugin.name} recovered from tool error in ${pluginContext.toolName}`);
+          return {
+            ...recovery,
+            metadata: {
+              ...recovery.metadata,
+              recoveredBy: plugin.name
+            }
+          };
+        }
+      } catch (handlerError) {
+        // A failing recovery handler must not mask the original tool error
+        await this.handlePluginError(plugin.name, 'onToolError', handlerError as Error, pluginContext);
+      }
+    }
+  }
+  
+  /**
+   * Execute onToolCallEnd hooks for all plugins. Plugins disabled or with an
+   * open circuit since the call began still get the hook, so they can release
+   * what they acquired for it; only plugins never initialized are skipped.
+   */
+  async executeCallEndHooks(context: ToolCallContext | PluginContext): Promise<void> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    const initialized = Array.from(this.plugins.values()).filter(entry => entry.initialized);
+    const plugins = this.sortByDependencies(initialized).filter(p => 
+      this.shouldPluginProcessTool(p.name, pluginContext.toolName, pluginContext.toolTags)
+    );
+    
+    for (const plugin of plugins) {
+      if (!plugin.onToolCallEnd) continue;
+      
+      try {
+        await this.executeWithTimeout(
+          () => plugin.onToolCallEnd!(pluginContext),
+          this.getHookTimeout(plugin.name, 'onToolCallEnd'),
+          `Plugin ${plugin.name} onToolCallEnd`,
+          pluginContext
+        );
+      } catch (error) {
+        await this.handlePluginError(plugin.name, 'onToolCallEnd', error as Error, pluginContext);
+      }
+    }
+  }
+  
+  /**
+   * Execute beforeResourceRead hooks for all plugins
+   */
+  async executeBeforeResourceHooks(context: ResourceReadContext | ResourcePluginContext): Promise<void | ResourceReadResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeBeforePhase(
+      'beforeResourceRead',
+      pluginContext,
+      plugin => plugin.beforeResourceRead?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Execute afterResourceRead hooks for all plugins
+   */
+  async executeAfterResourceHooks(
+    context: ResourceReadContext | ResourcePluginContext,
+    result: ResourceReadResult
+  ): Promise<ResourceReadResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeAfterPhase(
+      'afterResourceRead',
+      pluginContext,
+      result,
+      plugin => plugin.afterResourceRead?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Execute beforePromptGet hooks for all plugins
+   */
+  async executeBeforePromptHooks(context: PromptGetContext | PromptPluginContext): Promise<void | PromptGetResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeBeforePhase(
+      'beforePromptGet',
+      pluginContext,
+      plugin => plugin.beforePromptGet?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Execute afterPromptGet hooks for all plugins
+   */
+  async executeAfterPromptHooks(
+    context: PromptGetContext | PromptPluginContext,
+    result: PromptGetResult
+  ): Promise<PromptGetResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeAfterPhase(
+      'afterPromptGet',
+      pluginContext,
+      result,
+      plugin => plugin.afterPromptGet?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Execute beforeListTools hooks for all plugins
+   */
+  async executeBeforeListToolsHooks(context: ToolListContext | ToolListPluginContext): Promise<void | ToolListResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeBeforePhase(
+      'beforeListTools',
+      pluginContext,
+      plugin => plugin.beforeListTools?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Execute afterListTools hooks for all plugins. Tool filters do not apply:
+   * the listing covers every tool, so each plugin sees all of them.
+   */
+  async executeAfterListToolsHooks(
+    context: ToolListContext | ToolListPluginContext,
+    result: ToolListResult
+  ): Promise<ToolListResult> {
+    const pluginContext = this.ensurePluginContext(context);
+    
+    return this.executeAfterPhase(
+      'afterListTools',
+      pluginContext,
+      result,
+      plugin => plugin.afterListTools?.bind(plugin)
+    );
+  }
+  
+  /**
+   * Send a progress notification for a call, after the plugins' onProgress
+   * hooks have had a chance to rewrite it
+   */
+  async reportProgress(
+    context: ToolCallContext | ResourceReadContext | PromptGetContext,
+    update: ProgressUpdate
+  ): Promise<void> {
+    await this.sendProgress(this.ensurePluginContext(context), update);
+  }
+  
+  /**
+   * Validate plugin dependencies: required dependencies must be loaded,
+   * declared version ranges must match the loaded plugins, the wrapper must
+   * meet each plugin's minWrapperVersion, and dependencies must not form a cycle
    */
   async validateDependencies(): Promise<boolean> {
     const allPlugins = this.getAllPlugins();
-    const pluginNames = new Set(allPlugins.map(p => p.name));
     
     for (const plugin of allPlugins) {
-      if (plugin.metadata?.dependencies) {
-        for (const dep of plugin.metadata.dependencies) {
-          if (!pluginNames.has(dep)) {
-            throw new Error(`Plugin '${plugin.name}' requires dependency '${dep}' which is not loaded`);
+      const minWrapperVersion = plugin.metadata?.minWrapperVersion;
+      if (minWrapperVersion) {
+        // A bare version is a minimum; anything else is a range
+        const range = /^v?\d/.test(minWrapperVersion) ? `>=${minWrapperVersion}` : minWrapperVersion;
+        if (!satisfies(this.wrapperVersion, range)) {
+          throw new Error(
+            `Plugin '${plugin.name}' requires wrapper version ${range}, but the wrapper is ${this.wrapperVersion}`
+          );
+        }
+      }
+      
+      const required = (plugin.metadata?.dependencies ?? []).map(parseDependencySpec);
+      const optional = (plugin.metadata?.optionalDependencies ?? []).map(parseDependencySpec);
+      
+      for (const dep of [...required, ...optional]) {
+        const loaded = this.plugins.get(dep.name)?.plugin;
+        
+        if (!loaded) {
+          if (required.includes(dep)) {
+            throw new Error(`Plugin '${plugin.name}' requires dependency '${dep.name}' which is not loaded`);
           }
+          continue;
+        }
+        
+        if (dep.range && !satisfies(loaded.version, dep.range)) {
+          throw new Error(
+            `Plugin '${plugin.name}' requires '${dep.name}@${dep.range}', but version ${loaded.version} is loaded`
+          );
         }
       }
     }
     
+    this.resolveDependencyOrder();
+    
     return true;
   }
   
   /**
-   * Get plugin execution order based on priority and dependencies
+   * Get the enabled plugins in execution order: a plugin runs after the
+   * plugins it depends on (required or optional, when loaded), and otherwise
+   * higher priority first, then registration order
    */
   getExecutionOrder(): ProxyPlugin[] {
-    const plugins = Array.from(this.plugins.values())
-      .filter(entry => entry.config.enabled)
-      .map(entry => entry.plugin);
-    
-    // Sort by priority (higher priority first)
-    return plugins.sort((a, b) => {
-      const priorityA = this.plugins.get(a.name)?.config.priority || 100;
-      const priorityB = this.plugins.get(b.name)?.config.priority || 100;
-      return priorityB - priorityA;
-    });
+    return this.sortByDependencies(
+      Array.from(this.plugins.values()).filter(entry => entry.config.enabled)
+    );
+  }
+  
+  /**
+   * Wait for queued observer hooks to finish, for one plugin or for all
+   */
+  async settleObservers(pluginName?: string): Promise<void> {
+    await this.observers.settled(pluginName);
+  }
+  
+  /**
+   * Observer hooks currently waiting and running
+   */
+  getObserverStats(): ObserverQueueStats {
+    return this.observers.getStats();
   }
   
   /**
@@ -341,6 +714,25 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
     return results;
   }
   
+  /**
+   * Get the circuit breaker state of a plugin
+   */
+  getCircuitState(pluginName: string): CircuitState | undefined {
+    return this.plugins.get(pluginName)?.breaker.getState();
+  }
+  
+  /**
+   * Close a plugin's circuit so its hooks run again immediately
+   */
+  resetCircuit(pluginName: string): void {
+    const entry = this.plugins.get(pluginName);
+    if (!entry) {
+      throw new Error(`Plugin '${pluginName}' is not registered`);
+    }
+    entry.breaker.reset();
+    entry.healthy = true;
+  }
+  
   /**
    * Get aggregated statistics from all plugins
    */
@@ -377,16 +769,30 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
   }
   
   /**
-   * Destroy all plugins and cleanup
+   * Destroy all plugins and cleanup.
+   * Plugins are destroyed in reverse dependency order, so a plugin is
+   * torn down before the plugins it depends on.
    */
   async destroy(): Promise<void> {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = undefined;
+    }
+    
+    // Observers may rely on any plugin, so all of their work finishes first
+    await this.observers.settled();
+    
+    let plugins: ProxyPlugin[];
+    try {
+      plugins = this.resolveDependencyOrder().reverse();
+    } catch (error) {
+      // Dependencies that cannot be resolved must not prevent teardown
+      this.logger.warn('Destroying plugins in reverse registration order:', error);
+      plugins = this.getAllPlugins().reverse();
     }
     
-    const plugins = Array.from(this.plugins.keys());
-    for (const pluginName of plugins) {
-      await this.unregister(pluginName);
+    for (const plugin of plugins) {
+      await this.unregister(plugin.name);
     }
   }
   
@@ -407,46 +813,257 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
     }
   }
   
-  private createPluginContext(context: ToolCallContext): PluginContext {
-    return {
-      ...context,
-      pluginData: new Map(),
-      requestId: Math.random().toString(36).substr(2, 9),
-      startTime: Date.now(),
-      previousResults: new Map()
-    };
+  /**
+   * Reuse a context created by createPluginContext, or start a fresh one
+   * for callers that drive a single phase directly
+   */
+  private ensurePluginContext<T extends object>(context: T): T & Required<PluginCallState> {
+    if ('pluginData' in context && 'requestId' in context) {
+      const pluginContext = context as T & PluginCallState;
+      pluginContext.previousResults ??= new Map();
+      pluginContext.reportProgress ??= (progress, total, message) =>
+        this.sendProgress(pluginContext, { progress, total, message, origin: 'plugin' });
+      if (!this.callControllers.has(pluginContext)) {
+        const controller = this.createCallController(pluginContext.signal);
+        this.defineCallSignal(pluginContext, controller.signal);
+        this.callControllers.set(pluginContext, controller);
+      }
+      return pluginContext as T & Required<PluginCallState>;
+    }
+    return this.createPluginContext(context);
   }
   
-  private shouldPluginProcessTool(pluginName: string, toolName: string): boolean {
-    const entry = this.plugins.get(pluginName);
-    if (!entry || !entry.healthy) return false;
+  /**
+   * Run onProgress hooks and notify the client. Nothing is sent when the
+   * client did not ask for progress, and updates that do not increase the
+   * call's progress are dropped, as MCP requires progress to increase.
+   */
+  private async sendProgress(context: object & PluginCallState, update: ProgressUpdate): Promise<void> {
+    const pluginContext = context as PluginContext | ResourcePluginContext | PromptPluginContext;
+    const request = pluginContext.request;
+    if (request?.progressToken === undefined || !request.sendNotification) return;
     
-    const { includeTools, excludeTools } = entry.config;
+    const toolName = 'toolName' in pluginContext ? pluginContext.toolName : undefined;
+    let current = update;
     
-    // Check exclusions first
-    if (excludeTools.length > 0 && excludeTools.includes(toolName)) {
-      return false;
+    for (const plugin of this.getExecutionOrder()) {
+      if (!plugin.onProgress || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      if (toolName !== undefined && !this.shouldPluginProcessTool(plugin.name, toolName, (pluginContext as PluginContext).toolTags)) continue;
+      
+      try {
+        const rewritten = await this.executeWithTimeout(
+          () => plugin.onProgress!(pluginContext, current),
+          this.getHookTimeout(plugin.name, 'onProgress'),
+          `Plugin ${plugin.name} onProgress`,
+          pluginContext
+        );
+        this.recordPluginSuccess(plugin.name);
+        current = rewritten || current;
+      } catch (error) {
+        // Progress is advisory; a failing hook leaves the update as it was
+        await this.handlePluginError(plugin.name, 'onProgress', error as Error, pluginContext);
+      }
     }
     
-    // Check inclusions (empty means include all)
-    if (includeTools.length > 0) {
-      return includeTools.includes(toolName);
+    const last = this.lastProgress.get(pluginContext);
+    if (last !== undefined && current.progress <= last) {
+      this.logger.debug(`Dropped progress ${current.progress} for request ${pluginContext.requestId}, not above ${last}`);
+      return;
     }
+    this.lastProgress.set(pluginContext, current.progress);
     
-    return true;
+    await request.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: request.progressToken,
+        progress: current.progress,
+        total: current.total,
+        message: current.message
+      }
+    });
+  }
+  
+  /**
+   * Create the controller of a call's signal, following the parent signal
+   * (usually the client's request signal)
+   */
+  private createCallController(parent?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    
+    if (parent?.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent?.addEventListener('abort', () => controller.abort(parent.reason), { once: true });
+    }
+    
+    return controller;
+  }
+  
+  /**
+   * Make `signal` on a call context return the call's signal, or inside a
+   * hook the signal of that hook invocation
+   */
+  private defineCallSignal(context: PluginCallState, signal: AbortSignal): void {
+    Object.defineProperty(context, 'signal', {
+      get: () => this.hookSignals.getStore() ?? signal,
+      configurable: true,
+      enumerable: true
+    });
+  }
+  
+  /**
+   * Timeout for one of a plugin's hooks: the plugin's setting for the phase,
+   * then its default, then the wrapper's defaultTimeout
+   */
+  private getHookTimeout(pluginName: string, phase: PluginPhase, fallback: number = 10000): number {
+    const timeouts = this.plugins.get(pluginName)?.config.timeouts;
+    return timeouts?.[phase] ?? timeouts?.default ?? (this.globalConfig.defaultTimeout || fallback);
+  }
+  
+  /**
+   * Run a short-circuitable "before" phase for non-tool requests.
+   * Tool filters do not apply here; a plugin opts in by implementing the hook.
+   */
+  private async executeBeforePhase<C extends (ResourcePluginContext | PromptPluginContext | ToolListPluginContext) & Required<PluginCallState>, R>(
+    phase: PluginPhase,
+    pluginContext: C,
+    getHook: (plugin: ProxyPlugin) => ((context: C) => Promise<void | R>) | undefined
+  ): Promise<void | R> {
+    for (const plugin of this.getExecutionOrder()) {
+      const hook = getHook(plugin);
+      if (!hook || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      
+      try {
+        const result = await this.executeWithTimeout(
+          () => hook(pluginContext),
+          this.getHookTimeout(plugin.name, phase),
+          `Plugin ${plugin.name} ${phase}`,
+          pluginContext
+        );
+        this.recordPluginSuccess(plugin.name);
+        pluginContext.previousResults.set(plugin.name, result);
+        
+        if (result) {
+          this.logger.debug(`Plugin ${plugin.name} short-circuited ${phase}`);
+          return result;
+        }
+      } catch (error) {
+        const { severity } = await this.handlePluginError(plugin.name, phase, error as Error, pluginContext);
+        
+        if (severity === 'abort') {
+          this.abortCall(pluginContext, error);
+          throw error;
+        }
+      }
+    }
+  }
+  
+  /**
+   * Run a result-transforming "after" phase for requests other than tool calls
+   */
+  private async executeAfterPhase<C extends (ResourcePluginContext | PromptPluginContext | ToolListPluginContext) & Required<PluginCallState>, R>(
+    phase: PluginPhase,
+    pluginContext: C,
+    result: R,
+    getHook: (plugin: ProxyPlugin) => ((context: C, result: R) => Promise<R>) | undefined
+  ): Promise<R> {
+    let currentResult = result;
+    const plugins = this.getExecutionOrder();
+    
+    for (const plugin of plugins) {
+      if (plugin.kind === 'observer') continue;
+      
+      const hook = getHook(plugin);
+      if (!hook || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      
+      try {
+        currentResult = await this.executeWithTimeout(
+          () => hook(pluginContext, currentResult),
+          this.getHookTimeout(plugin.name, phase),
+          `Plugin ${plugin.name} ${phase}`,
+          pluginContext
+        );
+        this.recordPluginSuccess(plugin.name);
+        pluginContext.previousResults.set(plugin.name, currentResult);
+      } catch (error) {
+        const { severity } = await this.handlePluginError(plugin.name, phase, error as Error, pluginContext);
+        
+        if (severity === 'abort') {
+          this.abortCall(pluginContext, error);
+          throw error;
+        }
+      }
+    }
+    
+    await this.scheduleObservers(phase, plugins, pluginContext, currentResult, getHook);
+    
+    return currentResult;
+  }
+  
+  /**
+   * Queue the after hooks of observer plugins with the final result. Each
+   * observer is admitted while the call is still running, so draining and
+   * open circuits apply as they do to transformers. Waits only while the
+   * observer queue is full.
+   */
+  private async scheduleObservers<C extends PluginErrorInfo['context'], R>(
+    phase: PluginPhase,
+    plugins: ProxyPlugin[],
+    pluginContext: C,
+    result: R,
+    getHook: (plugin: ProxyPlugin) => ((context: C, result: R) => Promise<R>) | undefined
+  ): Promise<void> {
+    for (const plugin of plugins) {
+      if (plugin.kind !== 'observer') continue;
+      
+      const hook = getHook(plugin);
+      if (!hook || !this.admitPlugin(plugin.name, pluginContext)) continue;
+      
+      await this.observers.enqueue(plugin.name, async () => {
+        try {
+          await this.executeWithTimeout(
+            () => hook(pluginContext, result),
+            this.getHookTimeout(plugin.name, phase),
+            `Plugin ${plugin.name} ${phase}`,
+            pluginContext
+          );
+          this.recordPluginSuccess(plugin.name);
+        } catch (error) {
+          // The response may already be sent, so the error is only recorded
+          await this.handlePluginError(plugin.name, phase, error as Error, pluginContext);
+        }
+      });
+    }
   }
   
+  private shouldPluginProcessTool(pluginName: string, toolName: string, toolTags?: readonly string[]): boolean {
+    const entry = this.plugins.get(pluginName);
+    if (!entry) return false;
+    
+    return isToolSelected(entry.config, toolName, toolTags);
+  }
+  
+  /**
+   * Run one hook invocation with its own signal, which follows the signal of
+   * the call and is aborted when the hook times out, so the hook is told to
+   * stop even when its timeout does not end the call
+   */
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
     timeoutMs: number,
-    description: string
+    description: string,
+    callContext?: object
   ): Promise<T> {
+    const controller = this.createCallController(callContext && this.callControllers.get(callContext)?.signal);
+    
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        reject(new Error(`${description} timed out after ${timeoutMs}ms`));
+        const error = new PluginTimeoutError(`${description} timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
       }, timeoutMs);
       
-      fn()
+      this.hookSignals.run(controller.signal, fn)
         .then(result => {
           clearTimeout(timeout);
           resolve(result);
@@ -462,78 +1079,208 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
     pluginName: string,
     phase: PluginPhase,
     error: Error,
-    context: PluginContext
-  ): Promise<void> {
+    context: PluginErrorInfo['context']
+  ): Promise<{ severity: PluginErrorSeverity; recovery: void | ToolCallResult }> {
     const entry = this.plugins.get(pluginName);
-    if (entry) {
+    const { severity, malfunction } = this.classifyPluginError(entry, phase, error);
+    
+    // Deliberate errors (a declined payment, a denied request) show the plugin
+    // working, so they count as a successful run and give back a probe slot
+    if (entry && malfunction) {
       entry.healthy = false;
+      entry.breaker.recordFailure();
+    } else if (entry) {
+      entry.breaker.recordSuccess();
     }
     
-    const pluginError: PluginError = {
+    const pluginError: PluginErrorInfo = {
       pluginName,
       phase,
       error,
-      context
+      context,
+      severity
     };
     
-    this.logger.error(`Plugin ${pluginName} error in ${phase}:`, error);
+    if (severity === 'warn') {
+      this.logger.warn(`Plugin ${pluginName} warning in ${phase}: ${error.message}`);
+    } else {
+      this.logger.error(`Plugin ${pluginName} error in ${phase}:`, error);
+    }
     this.emit('plugin:error', pluginError);
     
     // Try to call plugin's error handler
     const plugin = entry?.plugin;
     if (plugin?.onError) {
       try {
-        await plugin.onError(pluginError);
+        return { severity, recovery: await plugin.onError(pluginError) };
       } catch (handlerError) {
         this.logger.error(`Plugin ${pluginName} error handler failed:`, handlerError);
       }
     }
+    
+    return { severity, recovery: undefined };
   }
   
-  private isCriticalError(error: Error): boolean {
-    // Define what constitutes a critical error that should stop processing
-    return error.message.includes('critical') || 
-           error.message.includes('fatal') ||
-           error.message.includes('security') ||
-           error.message.includes('timed out');
+  /**
+   * Resolve an error's severity from, in order: the plugin's classifyError,
+   * the severity carried by a PluginError, and the plugin's failure mode.
+   * Only errors nobody declared, 'skip-plugin' errors and timeouts count
+   * as malfunctions.
+   */
+  private classifyPluginError(
+    entry: PluginEntry | undefined,
+    phase: PluginPhase,
+    error: Error
+  ): { severity: PluginErrorSeverity; malfunction: boolean } {
+    let declared: PluginErrorSeverity | undefined;
+    
+    if (entry?.plugin.classifyError) {
+      try {
+        declared = entry.plugin.classifyError(error, phase) || undefined;
+      } catch (classifyError) {
+        this.logger.error(`Plugin ${entry.plugin.name} classifyError failed:`, classifyError);
+      }
+    }
+    
+    if (!declared && error instanceof PluginError) {
+      declared = error.severity;
+    }
+    
+    if (declared) {
+      return {
+        severity: declared,
+        malfunction: declared === 'skip-plugin' || error instanceof PluginTimeoutError
+      };
+    }
+    
+    return {
+      severity: entry?.config.failureMode === 'fail-closed' ? 'abort' : 'skip-plugin',
+      malfunction: true
+    };
   }
   
-  private resolveDependencyOrder(): ProxyPlugin[] {
-    // Simple topological sort for dependency resolution
-    const plugins = this.getAllPlugins();
-    const resolved: ProxyPlugin[] = [];
-    const resolving = new Set<string>();
-    
-    const resolve = (plugin: ProxyPlugin) => {
-      if (resolving.has(plugin.name)) {
-        throw new Error(`Circular dependency detected: ${plugin.name}`);
-      }
+  /**
+   * Decide whether a plugin may run for this call. A draining plugin only runs
+   * for calls that started before draining. An open circuit skips fail-open
+   * plugins and blocks the whole call for fail-closed ones.
+   */
+  private admitPlugin(pluginName: string, context: object, blockWhenOpen: boolean = true): boolean {
+    const entry = this.plugins.get(pluginName);
+    if (!entry) return false;
+    
+    if (entry.drainAfter !== undefined && (this.callSequences.get(context) ?? Infinity) > entry.drainAfter) {
+      return false;
+    }
+    
+    if (entry.breaker.canExecute()) {
+      return true;
+    }
+    
+    if (blockWhenOpen && entry.config.failureMode === 'fail-closed') {
+      throw new PluginUnavailableError(pluginName, Math.ceil(entry.breaker.getRetryDelay() / 1000));
+    }
+    
+    this.logger.debug(`Skipping plugin ${pluginName}: circuit open`);
+    return false;
+  }
+  
+  /**
+   * Run a plugin's initialize hook
+   */
+  private async initializePlugin(entry: PluginEntry, loadedPlugins: ProxyPlugin[] = this.getAllPlugins()): Promise<void> {
+    const plugin = entry.plugin;
+    
+    try {
+      const initContext: PluginInitContext = {
+        wrapperVersion: this.wrapperVersion,
+        loadedPlugins,
+        globalConfig: this.globalConfig,
+        logger: {
+          debug: (msg, ...args) => this.logger.debug(`[${plugin.name}] ${msg}`, ...args),
+          info: (msg, ...args) => this.logger.info(`[${plugin.name}] ${msg}`, ...args),
+          warn: (msg, ...args) => this.logger.warn(`[${plugin.name}] ${msg}`, ...args),
+          error: (msg, ...args) => this.logger.error(`[${plugin.name}] ${msg}`, ...args)
+        }
+      };
       
-      if (resolved.find(p => p.name === plugin.name)) {
-        return; // Already resolved
+      if (plugin.initialize) {
+        await this.executeWithTimeout(
+          () => plugin.initialize!(initContext),
+          this.getHookTimeout(plugin.name, 'initialize', 30000),
+          `Plugin ${plugin.name} initialization`
+        );
       }
       
-      resolving.add(plugin.name);
+      entry.initialized = true;
+      this.logger.info(`Initialized plugin: ${plugin.name}`);
       
-      // Resolve dependencies first
-      if (plugin.metadata?.dependencies) {
-        for (const depName of plugin.metadata.dependencies) {
-          const depPlugin = plugins.find(p => p.name === depName);
-          if (depPlugin) {
-            resolve(depPlugin);
-          }
+    } catch (error) {
+      this.logger.error(`Failed to initialize plugin ${plugin.name}:`, error);
+      entry.healthy = false;
+      
+      const pluginError: PluginErrorInfo = {
+        pluginName: plugin.name,
+        phase: 'initialize',
+        error: error as Error,
+        context: {} as PluginContext // No context during init
+      };
+      
+      this.emit('plugin:error', pluginError);
+      throw error;
+    }
+  }
+  
+  private recordPluginSuccess(pluginName: string): void {
+    const entry = this.plugins.get(pluginName);
+    if (entry) {
+      entry.healthy = true;
+      entry.breaker.recordSuccess();
+    }
+  }
+  
+  /**
+   * Order every registered plugin, enabled or not, by dependencies and priority
+   */
+  private resolveDependencyOrder(): ProxyPlugin[] {
+    return this.sortByDependencies(Array.from(this.plugins.values()));
+  }
+  
+  /**
+   * Priority-stable topological sort: repeatedly take the highest-priority
+   * plugin whose dependencies among the given entries have all been placed,
+   * breaking ties by registration order
+   */
+  private sortByDependencies(entries: PluginEntry[]): ProxyPlugin[] {
+    const names = new Set(entries.map(entry => entry.plugin.name));
+    const pending = new Map<string, string[]>(
+      entries.map(entry => [
+        entry.plugin.name,
+        dependencyNames(entry.plugin).filter(dep => names.has(dep))
+      ])
+    );
+    const ordered: ProxyPlugin[] = [];
+    
+    while (pending.size > 0) {
+      let next: PluginEntry | undefined;
+      
+      for (const entry of entries) {
+        const deps = pending.get(entry.plugin.name);
+        if (!deps || deps.some(dep => pending.has(dep))) continue;
+        
+        if (!next || entry.config.priority > next.config.priority) {
+          next = entry;
         }
       }
       
-      resolving.delete(plugin.name);
-      resolved.push(plugin);
-    };
-    
-    for (const plugin of plugins) {
-      resolve(plugin);
+      if (!next) {
+        throw new Error(`Circular dependency detected: ${findCycle(pending).join(' -> ')}`);
+      }
+      
+      pending.delete(next.plugin.name);
+      ordered.push(next.plugin);
     }
     
-    return resolved;
+    return ordered;
   }
   
   private startHealthChecks(): void {
@@ -543,4 +1290,41 @@ export class DefaultPluginManager extends EventEmitter implements PluginManager
       await this.healthCheck();
     }, interval);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Split a dependency declaration into the plugin name and an optional version range
+ */
+function parseDependencySpec(spec: string): DependencySpec {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: spec };
+  }
+  return { name: spec.slice(0, at), range: spec.slice(at + 1) };
+}
+
+/**
+ * Names of the plugins a plugin must run after, required or optional
+ */
+function dependencyNames(plugin: ProxyPlugin): string[] {
+  return [
+    ...(plugin.metadata?.dependencies ?? []),
+    ...(plugin.metadata?.optionalDependencies ?? [])
+  ].map(spec => parseDependencySpec(spec).name);
+}
+
+/**
+ * Find a cycle among plugins that can never be placed. Every pending plugin
+ * waits on another pending plugin, so following those edges must loop.
+ */
+function findCycle(pending: Map<string, string[]>): string[] {
+  const path: string[] = [];
+  let current = pending.keys().next().value as string;
+  
+  while (!path.includes(current)) {
+    path.push(current);
+    current = pending.get(current)!.find(dep => pending.has(dep))!;
+  }
+  
+  return [...path.slice(path.indexOf(current)), current];
+}
@@ -0,0 +1,258 @@
+/**
+ * @file Semantic Versioning
+ * @version 1.0.0
+ *
+ * Minimal semver support for checking plugin and wrapper version constraints.
+ *
+ * Range forms:
+ * - '1.2.3', '=1.2.3': exact version
+ * - '1.2', '1.2.x', '1', '*': any version matching the given parts
+ * - '>1.2.3', '>=1.2.3', '<2.0.0', '<=1.9': comparisons
+ * - '^1.2.3': compatible changes (below the next major, or next minor for 0.x)
+ * - '~1.2.3': patch changes (below the next minor)
+ * - '1.2.3 - 2.0.0': inclusive span
+ * - '>=1.2.0 <2.0.0': every comparator must hold
+ * - '^1.0.0 || ^2.0.0': any of the alternatives may hold
+ *
+ * Prerelease versions order below their release (1.0.0-beta < 1.0.0), and
+ * upper bounds derived from ^, ~ and partial versions exclude prereleases
+ * of the bound itself, so '^1.0.0' does not accept 2.0.0-beta.
+ *
+ * As in npm's semver, a prerelease only satisfies a range when one of the
+ * comparators it meets names a prerelease of the same major.minor.patch:
+ * '^1.0.0' rejects 1.5.0-beta, while '>=1.5.0-alpha <2.0.0' accepts it.
+ */
+
+/**
+ * Parsed version; build metadata is dropped as it does not affect precedence
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?(.*)$/;
+
+/**
+ * Parse a full x.y.z version, returning undefined when it is not valid semver
+ */
+export function parseVersion(version: string): SemVer | undefined {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return undefined;
+  
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * Compare two versions by precedence: negative if a < b, positive if a > b
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const left = typeof a === 'string' ? requireVersion(a) : a;
+  const right = typeof b === 'string' ? requireVersion(b) : b;
+  
+  return left.major - right.major
+    || left.minor - right.minor
+    || left.patch - right.patch
+    || comparePrerelease(left.prerelease, right.prerelease);
+}
+
+/**
+ * Check whether a version falls within a range. Invalid versions never
+ * satisfy a range; invalid ranges throw.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+  
+  return parseRange(range).some(comparators =>
+    comparators.every(comparator => testComparator(parsed, comparator))
+      && (parsed.prerelease.length === 0 || comparators.some(comparator => allowsPrerelease(parsed, comparator)))
+  );
+}
+
+/**
+ * Check that a range is well formed
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function requireVersion(version: string): SemVer {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new Error(`Invalid version: ${version}`);
+  }
+  return parsed;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release has higher precedence than any of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+  
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+    
+    const numericA = /^\d+$/.test(a[i]);
+    const numericB = /^\d+$/.test(b[i]);
+    
+    if (numericA && numericB) return Number(a[i]) - Number(b[i]);
+    if (numericA) return -1;
+    if (numericB) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  
+  return 0;
+}
+
+function testComparator(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const order = compareVersions(version, bound);
+  
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '=': return order === 0;
+  }
+}
+
+/**
+ * Whether a comparator opts in to prereleases of the version's own release
+ */
+function allowsPrerelease(version: SemVer, { version: bound }: Comparator): boolean {
+  return bound.prerelease.length > 0
+    && bound.major === version.major
+    && bound.minor === version.minor
+    && bound.patch === version.patch;
+}
+
+/**
+ * Parse a range into alternatives, each a list of comparators that must all hold
+ */
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(alternative => {
+    const trimmed = alternative.trim();
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+    
+    if (hyphen) {
+      return [
+        ...expandComparator('>=', parsePartial(hyphen[1], range)),
+        ...expandComparator('<=', parsePartial(hyphen[2], range))
+      ];
+    }
+    
+    // Allow whitespace between an operator and its version, as in '>= 1.2.0'
+    const tokens = trimmed.replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    
+    return tokens.flatMap(token => {
+      const [, operator = '', version] = COMPARATOR_PATTERN.exec(token)!;
+      return expandComparator(operator, parsePartial(version, range));
+    });
+  });
+}
+
+function parsePartial(version: string, range: string): PartialVersion {
+  const match = PARTIAL_PATTERN.exec(version);
+  if (!match) {
+    throw new Error(`Invalid version range: ${range}`);
+  }
+  
+  const part = (value?: string) =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value);
+  
+  const major = part(match[1]);
+  const minor = major === undefined ? undefined : part(match[2]);
+  const patch = minor === undefined ? undefined : part(match[3]);
+  
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== undefined && match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * Translate one range token into plain comparisons
+ */
+function expandComparator(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch, prerelease } = partial;
+  
+  // '*', 'x' and '>=*' accept every version
+  if (major === undefined) return [];
+  
+  const lower: SemVer = { major, minor: minor ?? 0, patch: patch ?? 0, prerelease };
+  const exact = patch !== undefined;
+  
+  // Smallest version above every version matching the given parts
+  const next = minor === undefined
+    ? upperBound(major + 1, 0, 0)
+    : upperBound(major, minor + 1, 0);
+  
+  switch (operator) {
+    case '^': {
+      let upper: SemVer;
+      if (major > 0 || minor === undefined) {
+        upper = upperBound(major + 1, 0, 0);
+      } else if (minor > 0 || patch === undefined) {
+        upper = upperBound(0, minor + 1, 0);
+      } else {
+        upper = upperBound(0, 0, patch + 1);
+      }
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: lower }];
+    case '>':
+      return [exact ? { operator: '>', version: lower } : { operator: '>=', version: next }];
+    case '<=':
+      return [exact ? { operator: '<=', version: lower } : { operator: '<', version: next }];
+    default:
+      return exact
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+  }
+}
+
+/**
+ * Exclusive upper bound that also excludes the bound's own prereleases
+ */
+function upperBound(major: number, minor: number, patch: number): SemVer {
+  return { major, minor, patch, prerelease: ['0'] };
+}
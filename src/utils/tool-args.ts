@@ -0,0 +1,29 @@
+/**
+ * @file Tool Arguments
+ * @version 1.0.0
+ *
+ * Re-validation of tool arguments against the schema the tool was registered
+ * with. The SDK validates the client's arguments once, before any hook runs;
+ * hooks may then rewrite `context.args`, so the arguments are checked again
+ * before they reach the wrapped handler.
+ */
+
+import { ToolCallContext } from '../interfaces/proxy-hooks.js';
+import { InvalidToolArgumentsError } from '../interfaces/plugin.js';
+
+/**
+ * Validate the context's arguments against its tool schema. The arguments are
+ * only checked, not replaced by the parsed value, so keys the schema does not
+ * declare still reach the tool.
+ * @param context Call context carrying the arguments and schema
+ * @param pluginName Plugin whose hook last ran, named in the error
+ * @throws InvalidToolArgumentsError when the arguments do not match the schema
+ */
+export function validateToolArgs(context: ToolCallContext, pluginName?: string): void {
+  if (!context.toolSchema) return;
+  
+  const parsed = context.toolSchema.safeParse(context.args);
+  if (!parsed.success) {
+    throw new InvalidToolArgumentsError(context.toolName, parsed.error.issues, pluginName);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @file Tool Matcher
+ * @version 1.0.0
+ *
+ * Decides whether a tool is selected by a plugin's includeTools/excludeTools.
+ * Shared by the plugin manager and BasePlugin so both apply the same rules.
+ *
+ * Selector forms:
+ * - 'search': exact tool name
+ * - 'github.*', 'admin/*', 'db_read_?': glob; '*' matches any run of characters, '?' one character
+ * - '/^db_(read|list)_/i' or a RegExp: regular expression tested against the tool name
+ * - 'tag:billing': tools carrying the tag, from the wrapper's tag map or the tool's annotations
+ */
+
+import type { ToolSelector } from '../interfaces/plugin.js';
+
+/**
+ * Tool filter settings, as found on PluginConfig
+ */
+export interface ToolFilter {
+  includeTools?: ToolSelector[];
+  excludeTools?: ToolSelector[];
+}
+
+type CompiledSelector = (toolName: string, tags: readonly string[]) => boolean;
+
+/**
+ * Compiled string selectors; configurations reuse the same few strings on every call
+ */
+const compiledSelectors = new Map<string, CompiledSelector>();
+
+/**
+ * Turn a selector into a predicate over a tool's name and tags
+ */
+export function compileToolSelector(selector: ToolSelector): CompiledSelector {
+  if (selector instanceof RegExp) {
+    return toolName => {
+      // Global and sticky expressions keep state between test() calls
+      selector.lastIndex = 0;
+      return selector.test(toolName);
+    };
+  }
+  
+  const cached = compiledSelectors.get(selector);
+  if (cached) return cached;
+  
+  let compiled: CompiledSelector;
+  const regexLiteral = /^\/(.+)\/([a-z]*)$/.exec(selector);
+  
+  if (selector.startsWith('tag:')) {
+    const tag = selector.slice('tag:'.length);
+    compiled = (_toolName, tags) => tags.includes(tag);
+  } else if (regexLiteral) {
+    const pattern = new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ''));
+    compiled = toolName => pattern.test(toolName);
+  } else if (/[*?]/.test(selector)) {
+    const source = selector
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*+/g, '.*')
+      .replace(/\?/g, '.');
+    const pattern = new RegExp(`^${source}$`);
+    compiled = toolName => pattern.test(toolName);
+  } else {
+    compiled = toolName => toolName === selector;
+  }
+  
+  compiledSelectors.set(selector, compiled);
+  return compiled;
+}
+
+/**
+ * Check a single selector against a tool
+ */
+export function matchesToolSelector(
+  selector: ToolSelector,
+  toolName: string,
+  tags: readonly string[] = []
+): boolean {
+  return compileToolSelector(selector)(toolName, tags);
+}
+
+/**
+ * Apply a tool filter: exclusions win, and an empty include list selects every tool
+ */
+export function isToolSelected(
+  filter: ToolFilter,
+  toolName: string,
+  tags: readonly string[] = []
+): boolean {
+  const { includeTools, excludeTools } = filter;
+  
+  if (excludeTools?.some(selector => matchesToolSelector(selector, toolName, tags))) {
+    return false;
+  }
+  
+  if (includeTools && includeTools.length > 0) {
+    return includeTools.some(selector => matchesToolSelector(selector, toolName, tags));
+  }
+  
+  return true;
+}
+
+/**
+ * Tags implied by tool annotations: an explicit `tags` array, plus
+ * 'readOnly', 'destructive', 'idempotent' and 'openWorld' for hints set to true
+ */
+export function tagsFromAnnotations(annotations?: Record<string, unknown>): string[] {
+  if (!annotations) return [];
+  
+  const tags = Array.isArray(annotations.tags)
+    ? annotations.tags.filter((tag): tag is string => typeof tag === 'string')
+    : [];
+  
+  const hints: Record<string, string> = {
+    readOnlyHint: 'readOnly',
+    destructiveHint: 'destructive',
+    idempotentHint: 'idempotent',
+    openWorldHint: 'openWorld'
+  };
+  
+  for (const [hint, tag] of Object.entries(hints)) {
+    if (annotations[hint] === true) {
+      tags.push(tag);
+    }
+  }
+  
+  return tags;
+}